@@ -0,0 +1,122 @@
+/**
+ * File: bench/router.bench.ts
+ *
+ * Benchmarks of route matching with the path tries of the router before routes were compiled against the compiled routes.
+ *
+ * Run with `deno bench -A bench/`.
+ */
+
+import { Router } from "@trie/http-router";
+import type { PathParts, RouteTypes } from "../src/types.ts";
+import { CompiledRoutes } from "../src/util/compiled-routes.ts";
+import { PathTrie } from "./baseline-path-trie.ts";
+
+const noop = () => {};
+// routes the path tries before compiling support too: no constraints
+const routes: Array<[Exclude<RouteTypes, "middleware" | "after">, string]> = [
+  ["filter", "/**"],
+  ["hook", "/api/**"],
+  ["hook", "/static/**"],
+  ["handler", "/static/**"],
+  ["handler", "/files/:name"],
+  ["fallback", "/api/**"],
+  ["catcher", "/**"],
+];
+for (const resource of ["users", "posts", "comments", "tags", "files"]) {
+  routes.push(
+    ["handler", `/api/${resource}`],
+    ["handler", `/api/${resource}/:id`],
+    ["handler", `/api/${resource}/:id/history`],
+    ["handler", `/api/${resource}/:id/:field`]
+  );
+}
+
+const router = new Router();
+const tries = {
+  filter: new PathTrie(),
+  hook: new PathTrie(),
+  handler: new PathTrie(),
+  fallback: new PathTrie(),
+  catcher: new PathTrie(),
+};
+const register = {
+  filter: (methodPath: string) => router.filter(methodPath)(noop),
+  hook: (methodPath: string) => router.hook(methodPath)(noop),
+  handler: (methodPath: string) => router.handle(methodPath)(noop),
+  fallback: (methodPath: string) => router.fallback(methodPath)(noop),
+  catcher: (methodPath: string) => router.catch(methodPath)(noop),
+};
+for (const [type, path] of routes) {
+  register[type]("GET " + path);
+  const pathParts: PathParts = path
+    .split("/")
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith(":") ? ["*", part.substring(1)] : [part, undefined]
+    );
+  tries[type].set(pathParts, (node) => {
+    node.handlers = [noop];
+  });
+}
+
+const paths = [
+  "/",
+  "/api/users",
+  "/api/posts/42",
+  "/api/comments/7/history",
+  "/api/tags/3/name",
+  "/api/missing/route",
+  "/static/css/site%20main.css",
+  "/files/report.pdf",
+];
+const pathsParts = paths.map((path) => path.split("/").filter(Boolean));
+const compiled = new CompiledRoutes(router.routes, router.methods);
+const info = {
+  remoteAddr: { hostname: "127.0.0.1", port: 80, transport: "tcp" },
+  completed: Promise.resolve(),
+} as unknown as Deno.ServeHandlerInfo<Deno.NetAddr>;
+
+Deno.bench({
+  name: "path tries before compiling",
+  group: "match",
+  baseline: true,
+  fn() {
+    for (const path of paths) {
+      // like the router did: split and look up each route type separately
+      tries.filter.getAll(path.split("/").filter(Boolean));
+      tries.hook.getAll(path.split("/").filter(Boolean));
+      tries.handler.get(path.split("/").filter(Boolean));
+      tries.fallback.get(path.split("/").filter(Boolean));
+      tries.catcher.get(path.split("/").filter(Boolean));
+    }
+  },
+});
+
+Deno.bench({
+  name: "compiled routes",
+  group: "match",
+  fn() {
+    for (const pathParts of pathsParts) {
+      compiled.match("GET", pathParts);
+    }
+  },
+});
+
+Deno.bench({
+  name: "compile",
+  fn() {
+    new CompiledRoutes(router.routes, router.methods);
+  },
+});
+
+Deno.bench({
+  name: "handleRequest",
+  async fn() {
+    for (const path of paths) {
+      await router.handleRequest(
+        new Request("http://localhost:3000" + path),
+        info
+      );
+    }
+  },
+});
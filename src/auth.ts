@@ -7,9 +7,18 @@
  */
 
 import type { JWT, JwtPayload, JWTVeryfyOptions } from "./jwt.ts";
+import { ProblemError } from "./error.ts";
 import { StatusCode } from "./status/code.ts";
 import type { ProcessedRequest } from "./processed-request.ts";
-import type { Handler, HandlerResult } from "./types.ts";
+import type { Handler, HandlerResult, ParamsRecord } from "./types.ts";
+
+function rejected(
+  pr: ProcessedRequest<ParamsRecord>,
+  status: number,
+  detail: string
+): Response {
+  return pr.problem(new ProblemError(status, { detail }));
+}
 
 export type UsernamePasswordOptions = {
   username: string;
@@ -18,7 +27,7 @@ export type UsernamePasswordOptions = {
 
 export type AuthBasicCredentialFn<UserData> = (
   { username, password }: UsernamePasswordOptions,
-  pr: ProcessedRequest & UserData
+  pr: ProcessedRequest<ParamsRecord> & Partial<UserData>
 ) => HandlerResult;
 
 export type AuthBasicParams<UserData> = {
@@ -28,16 +37,26 @@ export type AuthBasicParams<UserData> = {
 function basic<UserData extends Record<string, unknown>>(
   options: AuthBasicParams<UserData>,
   status?: number
-): Handler<UserData> {
+): Handler<UserData, ParamsRecord> {
   status = status || StatusCode.Unauthorized;
   const acceptCredentials = options.acceptCredentials;
-  return async function (pr: ProcessedRequest & UserData) {
+  return async function (
+    pr: ProcessedRequest<ParamsRecord> & Partial<UserData>
+  ) {
     const authorizationHeader = pr.request.headers.get("authorization");
     if (authorizationHeader) {
       const [scheme, creds] = authorizationHeader.split(" ", 2);
       const schemesMatch = scheme.toLowerCase() === "basic";
-      if (!schemesMatch) return pr.end();
-      const [username, password] = atob(creds).split(":", 2);
+      if (!schemesMatch) {
+        return rejected(pr, status, "unsupported authorization scheme");
+      }
+      let decoded: string;
+      try {
+        decoded = atob(creds);
+      } catch {
+        return rejected(pr, status, "malformed credentials");
+      }
+      const [username, password] = decoded.split(":", 2);
       let result = acceptCredentials({ username, password }, pr);
       if (result) {
         if (result instanceof Promise) result = await result;
@@ -50,7 +69,7 @@ function basic<UserData extends Record<string, unknown>>(
 
 export type AuthApiKeyCredentialFn<UserData> = (
   key: string,
-  pr: ProcessedRequest & UserData
+  pr: ProcessedRequest<ParamsRecord> & Partial<UserData>
 ) => HandlerResult;
 
 export type AuthApiKeyParams<UserData> = {
@@ -60,13 +79,15 @@ export type AuthApiKeyParams<UserData> = {
 function apiKey<UserData extends Record<string, unknown>>(
   options: AuthApiKeyParams<UserData>,
   status?: number
-): Handler<UserData> {
+): Handler<UserData, ParamsRecord> {
   status = status || StatusCode.Unauthorized;
   const accpetKey = options.accpetKey;
-  return async function (pr: ProcessedRequest & UserData) {
+  return async function (
+    pr: ProcessedRequest<ParamsRecord> & Partial<UserData>
+  ) {
     pr.status(status);
     const xApiKey = pr.request.headers.get("X-API-Key");
-    if (!xApiKey) return pr.end();
+    if (!xApiKey) return rejected(pr, status, "missing `X-API-Key` header");
     let result = accpetKey(xApiKey, pr);
     if (result) {
       if (result instanceof Promise) result = await result;
@@ -78,7 +99,7 @@ function apiKey<UserData extends Record<string, unknown>>(
 
 export type AuthBearerTokenFn = (
   token: string,
-  pr: ProcessedRequest
+  pr: ProcessedRequest<ParamsRecord>
 ) => HandlerResult;
 
 export type AuthBearerTokenParams = {
@@ -89,17 +110,21 @@ export type AuthBearerTokenParams = {
 function bearerToken<UserData extends Record<string, unknown>>(
   options: AuthBearerTokenParams,
   status?: number
-): Handler<UserData> {
+): Handler<UserData, ParamsRecord> {
   status = status || StatusCode.Unauthorized;
   const scheme = options.scheme?.toLowerCase() || "bearer";
   const acceptToken = options.acceptToken;
-  return async function (pr: ProcessedRequest) {
+  return async function (pr: ProcessedRequest<ParamsRecord>) {
     pr.status(status);
     const authorizationHeader = pr.request.headers.get("Authorization");
-    if (!authorizationHeader) return pr.end();
+    if (!authorizationHeader) {
+      return rejected(pr, status, "missing authorization");
+    }
     const [hScheme, hToken] = authorizationHeader.split(" ").filter(Boolean);
     const schemesMatch = hScheme.toLowerCase() === scheme;
-    if (!schemesMatch) return pr.end();
+    if (!schemesMatch) {
+      return rejected(pr, status, "unsupported authorization scheme");
+    }
     let result = acceptToken(hToken, pr);
     if (result) {
       if (result instanceof Promise) result = await result;
@@ -114,7 +139,7 @@ export type AuthJsonWebTokenFn<
   UserData extends Record<string, unknown>
 > = (
   payload: JwtPayload<Payload>,
-  pr: ProcessedRequest & UserData
+  pr: ProcessedRequest<ParamsRecord> & Partial<UserData>
 ) => HandlerResult;
 
 export type AuthJsonWebTokenParams<
@@ -133,20 +158,24 @@ function jsonWebToken<
 >(
   options: AuthJsonWebTokenParams<Payload, UserData>,
   status?: number
-): Handler<UserData> {
+): Handler<UserData, ParamsRecord> {
   status = status || StatusCode.Unauthorized;
   const scheme = options.scheme?.toLowerCase() || "bearer";
   const jwt = options.jwt;
   const acceptJWT = options.acceptJWT;
-  return async function (pr: ProcessedRequest & UserData) {
+  return async function (
+    pr: ProcessedRequest<ParamsRecord> & Partial<UserData>
+  ) {
     pr.status(status);
     const authorizationHeader = pr.request.headers.get("authorization");
     if (authorizationHeader) {
       const [hScheme, token] = authorizationHeader.split(" ").filter(Boolean);
       const schemesMatch = hScheme.toLowerCase() === scheme;
-      if (!schemesMatch) return pr.end();
+      if (!schemesMatch) {
+        return rejected(pr, status, "unsupported authorization scheme");
+      }
       const payload = await jwt.decode(token, options.verify);
-      if (!payload) return pr.end();
+      if (!payload) return rejected(pr, status, "invalid token");
       let result = acceptJWT(payload, pr);
       if (result) {
         if (result instanceof Promise) result = await result;
@@ -160,7 +189,10 @@ function jsonWebToken<
 export type AuthCookieFn<
   Payload extends Record<string, unknown>,
   UserData extends Record<string, unknown>
-> = (cookie: Payload, pr: ProcessedRequest & UserData) => HandlerResult;
+> = (
+  cookie: Payload,
+  pr: ProcessedRequest<ParamsRecord> & Partial<UserData>
+) => HandlerResult;
 
 export type AuthCookieParams<
   Payload extends Record<string, unknown>,
@@ -177,16 +209,24 @@ function signedCookie<
 >(
   options: AuthCookieParams<Payload, UserData>,
   status?: number
-): Handler<UserData> {
+): Handler<UserData, ParamsRecord> {
   const cookieName = options.name;
   const jwt = options.jwt;
   const acceptPayload = options.acceptPayload;
   status = status || StatusCode.Unauthorized;
-  return async function (pr: ProcessedRequest & UserData) {
+  return async function (
+    pr: ProcessedRequest<ParamsRecord> & Partial<UserData>
+  ) {
     pr.status(status);
     const cookies = await pr.signedCookies<Payload>([cookieName], { jwt });
     const cookie = cookies[cookieName];
-    if (cookie == null) return pr.end();
+    if (cookie == null) {
+      return rejected(
+        pr,
+        status,
+        `missing or invalid \`${cookieName}\` cookie`
+      );
+    }
     let result = acceptPayload(cookie, pr);
     if (result) {
       if (result instanceof Promise) result = await result;
@@ -15,6 +15,7 @@ import type {
   InsecureProtocols,
   MultipartContentTypes,
   RequestMethod,
+  RouteTypes,
   SecureProtocols,
   TextContentTypes,
   VideoContentTypes,
@@ -46,6 +47,19 @@ export const REQUEST_METHODS_SET: Set<RequestMethod> = new Set(
   REQUEST_METHODS_LIST
 );
 
+export const ROUTE_TYPES_LIST: Array<RouteTypes> = [
+  "middleware",
+  "filter",
+  "hook",
+  "handler",
+  "fallback",
+  "catcher",
+  "after",
+];
+
+/** token characters allowed in method names (RFC 9110) */
+export const METHOD_NAME_REGEX: RegExp = /^[!#$%&'*+\-.^_`|~0-9A-Z]+$/;
+
 export type RequestMethodWithBody = Exclude<RequestMethod, "GET" | "HEAD">;
 
 export const REQUEST_METHODS_WITH_BODY_LIST: Array<RequestMethodWithBody> = [
@@ -11,7 +11,7 @@ import { checkFileSync } from "../../util/file.ts";
 import { StatusCode } from "../../index.ts";
 import type RenderEngine from "../../render-engine.ts";
 import type ProcessedRequest from "../../processed-request.ts";
-import type { HandlerResult } from "../../types.ts";
+import type { HandlerResult, ParamsRecord } from "../../types.ts";
 
 type Options = {
   /** The name of the file being compiled. Used in exceptions, and required for relative includes and extends. Defaults to 'Pug'. */
@@ -61,7 +61,7 @@ export class PugEngine implements RenderEngine {
 
   render(
     filePath: string,
-    processedRequest: ProcessedRequest,
+    processedRequest: ProcessedRequest<ParamsRecord>,
     locals?: Record<string, unknown>
   ): HandlerResult {
     locals = { ...this.locals, ...locals };
@@ -3,9 +3,12 @@
  *
  * Error types for router and HTTP error handling.
  *
- * Exports RouterError and HttpError for consistent error management across the framework.
+ * Exports RouterError, HttpError and ProblemError for consistent error management across the framework.
  */
 
+import { StatusCode } from "./status/code.ts";
+import { StatusText } from "./status/text.ts";
+
 export class RouterError extends Error {
   constructor(message?: string, options?: ErrorOptions) {
     super(message, options);
@@ -19,3 +22,96 @@ export class HttpError extends Error {
     this.status = status || 500;
   }
 }
+
+/**
+ * The members of an RFC 9457 problem details document. Other members are
+ *  extension members.
+ */
+export interface ProblemDetails {
+  /** a URI reference identifying the problem type, `about:blank` by default */
+  type?: string;
+  /** a short summary of the problem type, the status text by default */
+  title?: string;
+  status?: number;
+  /** an explanation of this occurrence of the problem */
+  detail?: string;
+  /** a URI reference identifying the occurrence, the request path by default */
+  instance?: string;
+  [member: string]: unknown;
+}
+
+/**
+ * An `HttpError` with RFC 9457 problem details, responded with as
+ *  `application/problem+json` when no catcher responds to it.
+ */
+export class ProblemError extends HttpError {
+  type: string;
+  title: string;
+  detail?: string;
+  instance?: string;
+  extensions: Record<string, unknown>;
+
+  constructor(
+    status: number,
+    problem?: ProblemDetails,
+    options?: ErrorOptions
+  ) {
+    const {
+      type,
+      title,
+      status: _status,
+      detail,
+      instance,
+      ...extensions
+    } = problem ?? {};
+    const title_ = title ?? StatusText.get(status) ?? "Error";
+    super(detail ?? title_, status, options);
+    this.type = type ?? "about:blank";
+    this.title = title_;
+    this.detail = detail;
+    this.instance = instance;
+    this.extensions = extensions;
+  }
+
+  /** The problem details document */
+  toJSON(): ProblemDetails {
+    return {
+      type: this.type,
+      title: this.title,
+      status: this.status,
+      detail: this.detail,
+      instance: this.instance,
+      ...this.extensions,
+    };
+  }
+
+  /**
+   * Convert an error to a problem. `HttpError`s keep their status and
+   *  message as the detail, other errors like `RouterError`s are
+   *  `500 Internal Server Error`s without detail.
+   *
+   * @param error the error
+   * @returns `error` if it is a problem already, else its problem
+   */
+  static from(error: unknown): ProblemError {
+    if (error instanceof ProblemError) return error;
+    if (error instanceof HttpError) {
+      const title = StatusText.get(error.status);
+      return new ProblemError(
+        error.status,
+        {
+          detail:
+            error.message && error.message !== title
+              ? error.message
+              : undefined,
+        },
+        { cause: error }
+      );
+    }
+    return new ProblemError(
+      StatusCode.InternalServerError,
+      {},
+      { cause: error }
+    );
+  }
+}
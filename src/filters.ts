@@ -9,7 +9,8 @@
 import { REQUEST_METHODS_LIST } from "./defs.ts";
 import { RouterError, StatusCode } from "./index.ts";
 import type { ProcessedRequest } from "./processed-request.ts";
-import type { Handler } from "./types.ts";
+import type { Router } from "./router.ts";
+import type { Handler, ParamsRecord } from "./types.ts";
 
 export interface LimitRateParams {
   maxTokens: number;
@@ -20,7 +21,7 @@ export interface LimitRateParams {
 
 export function rateLimit<UserData extends Record<string, unknown>>(
   params: LimitRateParams
-): Handler<UserData> {
+): Handler<UserData, ParamsRecord> {
   const { maxTokens, refillRate, cleanupInterval, cleanupMethod } = params;
   const rates = new Map<string, { tokens: number; lastRefill: number }>();
   // latest tokens calculator function
@@ -63,7 +64,7 @@ export function rateLimit<UserData extends Record<string, unknown>>(
     }, cleanupIntervalMillis);
   }
   // ------------------------------------
-  return (pr: ProcessedRequest) => {
+  return (pr: ProcessedRequest<ParamsRecord>) => {
     const limiter = rates.get(pr.clientAddress);
     if (!limiter) {
       rates.set(pr.clientAddress, {
@@ -95,9 +96,17 @@ export interface AccessControlParams {
 
 export function accessControl<UserData extends Record<string, unknown>>(
   options: AccessControlParams
-): Handler<UserData> {
-  const methods = (options.allowMethods || REQUEST_METHODS_LIST).join(", ");
-  const methodsSet = new Set(options.allowMethods || REQUEST_METHODS_LIST);
+): Handler<UserData, ParamsRecord> {
+  const allowMethods: [string, Set<string>] | undefined =
+    options.allowMethods && [
+      options.allowMethods.join(", "),
+      new Set(options.allowMethods),
+    ];
+  // without allowMethods default to the methods of the calling router
+  const routerMethods = new WeakMap<
+    Router<UserData>,
+    [string, Set<string>]
+  >();
   const headers = options.allowHeaders && options.allowHeaders.join(", ");
   const headersSet = options.allowHeaders && new Set(options.allowHeaders);
   const origins = options.allowOrigins && new Set(options.allowOrigins);
@@ -107,7 +116,17 @@ export function accessControl<UserData extends Record<string, unknown>>(
   const exposeHeaders = options.exposeHeaders
     ? options.exposeHeaders.join(", ")
     : undefined;
-  return (pr: ProcessedRequest) => {
+  return function (
+    this: Router<UserData> | undefined,
+    pr: ProcessedRequest<ParamsRecord>
+  ) {
+    let allowed = allowMethods ?? (this && routerMethods.get(this));
+    if (allowed == null) {
+      const routerMethods_ = this?.methods ?? REQUEST_METHODS_LIST;
+      allowed = [routerMethods_.join(", "), new Set(routerMethods_)];
+      if (this) routerMethods.set(this, allowed);
+    }
+    const [methods, methodsSet] = allowed;
     if (origins) {
       const origin_ = pr.request.headers.get("origin");
       const referer = pr.request.headers.get("referer");
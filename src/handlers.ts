@@ -11,10 +11,15 @@ import { EXT_CONTENT_TYPE_MAP } from "./defs.ts";
 import { compress } from "./util/crypto.ts";
 import type { ProcessedRequest } from "./processed-request.ts";
 import { StatusCode } from "./index.ts";
-import type { Handler } from "./types.ts";
+import type { Handler, ParamsRecord } from "./types.ts";
 
 export type HandleStaticFilesOptions = {
   path?: string;
+  /**
+   * the param holding the file path, eg. `rest` for `GET /static/**:rest`.
+   *  Defaults to the request path, below the base path of mounted routers.
+   */
+  param?: string;
   indexFiles?: Array<string>;
   extensions?: Array<string>;
   cache?: boolean;
@@ -25,18 +30,22 @@ export type HandleStaticFilesOptions = {
 
 export function staticFiles<UserData extends Record<string, unknown>>(
   options?: HandleStaticFilesOptions
-): Handler<UserData> {
+): Handler<UserData, ParamsRecord> {
   const cache = new Map();
   const rootPath = options?.path || "./public";
+  const pathParam = options?.param;
   const indexFiles = options?.indexFiles;
   const extensions = options?.extensions;
   const cacheFiles = Boolean(options?.cache);
   const useETag = Boolean(options?.eTag);
   const compressionTreshold = options?.compressionTreshold;
 
-  return async (pr: ProcessedRequest) => {
+  return async (pr: ProcessedRequest<ParamsRecord>) => {
     const acceptEncoding = pr.request.headers.get("Accept-Encoding") || "";
-    let cacheHit = cacheFiles && cache.get(pr.url.pathname);
+    // the path below the base path of `Router.mount`
+    const pathname =
+      pathParam != null ? "/" + (pr.params[pathParam] ?? "") : pr.pathname;
+    let cacheHit = cacheFiles && cache.get(pathname);
     let fileContent;
     let contentType;
     let compressed: Record<string, Uint8Array | undefined> = {};
@@ -73,7 +82,7 @@ export function staticFiles<UserData extends Record<string, unknown>>(
       // cacheControl = cacheHit.cacheControl;
     }
     if (!cacheHit) {
-      const basePath = rootPath + decodeURIComponent(pr.url.pathname);
+      const basePath = rootPath + decodeURIComponent(pathname);
       let filePath = basePath;
       let fileStats = checkFileSync(filePath);
       if (fileStats?.isDirectory) {
@@ -109,7 +118,7 @@ export function staticFiles<UserData extends Record<string, unknown>>(
       //   ? "public, max-age=31536000, immutable"
       //   : "no-store";
       if (cacheFiles) {
-        cache.set(pr.url.pathname, {
+        cache.set(pathname, {
           filePath,
           fileContent,
           compressed,
@@ -13,6 +13,7 @@ export * from "./processed-request.ts";
 export * from "./defs.ts";
 export * from "./error.ts";
 export * from "./util/log.ts";
+export * from "./util/param.ts";
 export * from "./router.ts";
 export * from "./filters.ts";
 export * from "./handlers.ts";
@@ -6,7 +6,7 @@
  * Used internally by the router and handlers to manage request lifecycle and metadata.
  */
 
-import { type HttpError, RouterError } from "./error.ts";
+import { type HttpError, type ProblemError, RouterError } from "./error.ts";
 import { StatusText } from "./status/text.ts";
 import { StatusCode, type StatusCode3 } from "./status/code.ts";
 import {
@@ -24,40 +24,69 @@ import type {
   Content,
   ContentTypes,
   HandlerResult,
-  RequestMethod,
+  MatchedRoute,
+  ParamsRecord,
+  RequestState,
+  RouterMethod,
   SecureProtocols,
+  UrlBuilder,
+  UrlQuery,
 } from "./types.ts";
 import type RenderEngine from "./render-engine.ts";
 import { SECURE_PROTOCOLS_SET } from "./defs.ts";
 import type { JWT } from "@trie/http-router/jwt";
 
-export type ProRequest = ProcessedRequest;
+export type ProRequest<Params extends ParamsRecord = Record<string, string>> =
+  ProcessedRequest<Params>;
 
-export class ProcessedRequest {
+export class ProcessedRequest<
+  Params extends ParamsRecord = Record<string, string>,
+  State extends RequestState = Record<never, never>
+> {
   responseTime = 0;
   callCount = 0;
+  middlewareCount = 0;
   filterCount = 0;
   hookCount = 0;
   handleCount = 0;
   fallbackCount = 0;
   catchCount = 0;
+  afterCount = 0;
   headers: Headers = new Headers();
   statusCode = 0;
   error?: Error | HttpError;
+  /** the name of the handler that threw `error` */
+  failedHandler?: string;
+  /** params matched from the hostname by `Router.host` scopes */
+  hostParams: ParamsRecord = {};
+  /** params matched from the base paths of `Router.mount` */
+  mountParams: ParamsRecord = {};
+  /** the path routes are matched on, without a version prefix */
+  pathname: string;
+  /** the API version resolved by `RouterParams.versioning` */
+  version?: string;
+  /** the route handling the request, if any */
+  route?: MatchedRoute;
+  /** the response of the request, as seen by the after handlers */
+  response?: Response;
+  /** request-scoped values added by filters and hooks with `set` */
+  state: State = {} as State;
 
   constructor(
     public info: Deno.ServeHandlerInfo<Deno.NetAddr>,
     public time: number,
-    public method: RequestMethod,
+    public method: RouterMethod,
     public url: URL,
     public request: Request,
     public clientAddress: string,
     public clientPort: number,
-    public params: Record<string, string>,
+    public params: Params,
     public contentType?: string,
     public content?: Content,
-    public renderEngine?: RenderEngine // public cookies?: Record<string, CookieValue>, // public cookieEncoder?: CookieEncoder, // public cookieDecoder?: CookieDecoder
+    public renderEngine?: RenderEngine,
+    public urlBuilder?: UrlBuilder // public cookies?: Record<string, CookieValue>, // public cookieEncoder?: CookieEncoder, // public cookieDecoder?: CookieDecoder
   ) {
+    this.pathname = url.pathname;
     this.query = this.query.bind(this);
     this.body = this.body.bind(this);
     this.cookies = this.cookies.bind(this);
@@ -73,6 +102,9 @@ export class ProcessedRequest {
     this.end = this.end.bind(this);
     this.redirect = this.redirect.bind(this);
     this.forward = this.forward.bind(this);
+    this.urlFor = this.urlFor.bind(this);
+    this.redirectTo = this.redirectTo.bind(this);
+    this.problem = this.problem.bind(this);
   }
 
   cookies(cookieDecoder?: CookieDecoder): Promise<Record<string, CookieValue>> {
@@ -159,7 +191,7 @@ export class ProcessedRequest {
     value: CookieValue,
     options?: CookieOptions,
     cookieEncoder?: CookieEncoder
-  ): ProcessedRequest {
+  ): this {
     if (
       options?.secure &&
       !SECURE_PROTOCOLS_SET.has(this.url.protocol as SecureProtocols)
@@ -178,7 +210,7 @@ export class ProcessedRequest {
     jwt: JWT<Payload>,
     options?: CookieOptions,
     cookieEncoder?: CookieEncoder
-  ): ProcessedRequest {
+  ): this {
     if (
       options?.secure &&
       !SECURE_PROTOCOLS_SET.has(this.url.protocol as SecureProtocols)
@@ -199,21 +231,27 @@ export class ProcessedRequest {
     return this;
   }
 
-  expire(name: string, options?: ClearCookieOptions): ProcessedRequest {
+  expire(name: string, options?: ClearCookieOptions): this {
     clearCookie(this.headers, name, options);
     return this;
   }
 
-  expireAll(options?: ClearCookieOptions): ProcessedRequest {
+  expireAll(options?: ClearCookieOptions): this {
     clearCookies(this.request, this.headers, options);
     return this;
   }
 
-  status(statusCode: number): ProcessedRequest {
+  status(statusCode: number): this {
     this.statusCode = statusCode;
     return this;
   }
 
+  /** Set a request-scoped value in `state` */
+  set<Key extends keyof State>(key: Key, value: State[Key]): this {
+    this.state[key] = value;
+    return this;
+  }
+
   end(statusCode?: StatusCode | null, noStatusText?: boolean): Response {
     const status = (this.statusCode = statusCode || this.statusCode || 200);
     const statusText = StatusText.get(status);
@@ -305,6 +343,40 @@ export class ProcessedRequest {
     this.headers.append("Location", toLocation);
     return this.end(status);
   }
+
+  /**
+   * Respond with the problem details of `problem` as
+   *  `application/problem+json`.
+   */
+  problem(problem: ProblemError): Response {
+    const status = (this.statusCode = problem.status);
+    const statusText = StatusText.get(status);
+    const headers = this.headers;
+    headers.set("Content-Type", "application/problem+json");
+    return new Response(
+      JSON.stringify({
+        ...problem.toJSON(),
+        instance: problem.instance ?? this.url.pathname,
+      }),
+      { headers, status, statusText }
+    );
+  }
+
+  urlFor(name: string, params?: ParamsRecord, query?: UrlQuery): string {
+    if (this.urlBuilder == null) {
+      throw new RouterError("url builder not set");
+    }
+    return this.urlBuilder(name, params, query);
+  }
+
+  redirectTo(
+    name: string,
+    params?: ParamsRecord,
+    query?: UrlQuery,
+    status?: number | 301 | StatusCode3
+  ): Response {
+    return this.redirect(this.urlFor(name, params, query), status);
+  }
 }
 
 export default ProcessedRequest;
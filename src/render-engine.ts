@@ -7,14 +7,14 @@
  */
 
 import type ProcessedRequest from "./processed-request.ts";
-import type { HandlerResult } from "./types.ts";
+import type { HandlerResult, ParamsRecord } from "./types.ts";
 
 export abstract class RenderEngine {
   constructor() {}
 
   abstract render(
     filePath: string,
-    processedRequest: ProcessedRequest,
+    processedRequest: ProcessedRequest<ParamsRecord>,
     locals?: Record<string, unknown>
   ): HandlerResult;
 }
@@ -7,40 +7,139 @@
  */
 
 import type {
+  AddedState,
   ContentTypes,
+  ExtensionMethod,
   Handler,
-  RequestMethod,
+  HostParams,
+  Middleware,
+  Next,
+  ParamsRecord,
+  PathParts,
+  RequestState,
+  RouteInfo,
+  RouteIssue,
+  RouteOptions,
+  RouteParams,
+  RouterMethod,
   RouteTypes,
+  RouteVersioning,
+  SlashPolicy,
+  StateHandler,
+  UrlQuery,
 } from "./types.ts";
 import { ProcessedRequest } from "./processed-request.ts";
 import { StatusText } from "./status/text.ts";
-import { joinPath, splitMethodPath } from "./util/index.ts";
-import { PathTrie, type PathTrieNode } from "./util/path-trie.ts";
-import { type HttpError, RouterError } from "./error.ts";
-import { REQUEST_METHODS_SET } from "./defs.ts";
+import {
+  decodePathPart,
+  isRouterMethod,
+  joinBasePath,
+  joinPath,
+  joinPathParts,
+  pathPartsIds,
+  type RequestPath,
+  splitMethodPath,
+  splitPath,
+  splitRequestPath,
+  trimEnd,
+} from "./util/index.ts";
+import {
+  PathTrie,
+  type GroupRouteTypes,
+  type PathTrieGroup,
+  PathTrieNode,
+  type PathTrieOptions,
+  type PathTrieVariant,
+  type RouteSets,
+  type RouteTries,
+  type RouteTypeHandler,
+} from "./util/path-trie.ts";
+import { coerceParam } from "./util/param.ts";
+import { validateRoutes } from "./util/route-validation.ts";
+import { buildUrl, mountedUrl } from "./util/url.ts";
+import { errorResponse } from "./util/error-response.ts";
+import {
+  compileRouteConditions,
+  type RouteMatchFailure,
+  selectRoute,
+  varyHeaders,
+  withVary,
+} from "./util/negotiation.ts";
+import { resolveVersion, withDeprecationHeaders } from "./util/version.ts";
+import { matchSegmentPattern } from "./util/segment-pattern.ts";
+import { CompiledRoutes, type RouteMatch } from "./util/compiled-routes.ts";
+import { type HostPattern, matchHost, parseHostPattern } from "./util/host.ts";
+import { HttpError, RouterError } from "./error.ts";
+import {
+  METHOD_NAME_REGEX,
+  REQUEST_METHODS_LIST,
+  ROUTE_TYPES_LIST,
+} from "./defs.ts";
 import { StatusCode } from "./index.ts";
 import type RenderEngine from "./render-engine.ts";
 
-function initRoutes<UserData extends Record<string, unknown>>(): Record<
-  RequestMethod,
-  PathTrie<UserData>
-> {
-  return {
-    HEAD: new PathTrie(),
-    OPTIONS: new PathTrie(),
-    GET: new PathTrie(),
-    POST: new PathTrie(),
-    PUT: new PathTrie(),
-    PATCH: new PathTrie(),
-    DELETE: new PathTrie(),
-  };
+function initRoutes<
+  UserData extends Record<string, unknown>,
+  RouteHandler = Handler<UserData, ParamsRecord>
+>(
+  methods: Array<RouterMethod>,
+  options: PathTrieOptions
+): Record<RouterMethod, PathTrie<UserData, RouteHandler>> {
+  return Object.fromEntries(
+    methods.map((method) => [
+      method,
+      new PathTrie<UserData, RouteHandler>(options),
+    ])
+  ) as Record<RouterMethod, PathTrie<UserData, RouteHandler>>;
+}
+
+/**
+ * Add the params of `route` matched by the path to `params`.
+ *
+ * @param route the matched route
+ * @param pathParts the path segments, not yet decoded
+ * @param params the params to add to
+ * @returns `params`
+ */
+function routeParams<UserData extends Record<string, unknown>, RouteHandler>(
+  route: PathTrieNode<UserData, RouteHandler>,
+  pathParts: Array<string>,
+  params: ParamsRecord
+): ParamsRecord {
+  for (const [id, param] of route.params ?? []) {
+    // `**` params capture the rest of the path
+    const value =
+      param.value === "**"
+        ? pathParts.slice(param.index).join("/") || undefined
+        : pathParts[param.index];
+    if (value == null) continue;
+    if (param.pattern != null) {
+      const values = matchSegmentPattern(
+        param.pattern,
+        decodePathPart(value) ?? value
+      );
+      if (values == null) continue;
+      const patternValue = values[param.group!];
+      params[id] =
+        param.constraint != null
+          ? coerceParam(param.constraint, patternValue)
+          : patternValue;
+      continue;
+    }
+    params[id] =
+      param.constraint != null
+        ? coerceParam(param.constraint, decodePathPart(value) ?? value)
+        : value;
+  }
+  return params;
 }
+
 export type RouterEnginesType = {
   render?: RenderEngine;
 };
 
 export type RequestLoggerFn = (requestInfo: {
-  processedRequest: ProcessedRequest;
+  processedRequest: ProcessedRequest<ParamsRecord>;
   responseTime: number;
   status: number;
   statusText?: string;
@@ -54,27 +153,209 @@ export interface RouterParams {
   engines?: RouterEnginesType;
   log?: RouteLogParams;
   usingReverseProxy?: boolean;
+  /**
+   * Respond with `405 Method Not Allowed` and an `Allow` header when the path
+   *  is only handled under other methods. Defaults to `true`.
+   */
+  methodNotAllowed?: boolean;
+  /**
+   * Handle `HEAD` requests without `HEAD` routes with the `GET` routes and
+   *  strip the response body, preserving `Content-Length`.
+   */
+  autoHead?: boolean;
+  /**
+   * Answer `OPTIONS` requests without `OPTIONS` routes with
+   *  `204 No Content` and an `Allow` header listing the allowed methods.
+   */
+  autoOptions?: boolean;
+  /**
+   * Extension methods to route in addition to the built-in request methods,
+   *  like `QUERY` or WebDAV's `PROPFIND`. They are included in `*`.
+   */
+  methods?: Array<string>;
+  /**
+   * Refuse to handle requests while `validate` reports route issues:
+   *  `handleRequest` rejects with a `RouterError` listing them. Call
+   *  `validate` at startup to fail fast instead.
+   */
+  strictRoutes?: boolean;
+  /**
+   * Resolve the API version routes with a `version` condition are matched
+   *  on. By default it is read from the `API-Version` header.
+   */
+  versioning?: RouteVersioning;
+  /**
+   * Match request paths with a trailing slash like the path without it,
+   *  redirect them to the path of the matching route or only match routes
+   *  set with a trailing slash. Defaults to `ignore`.
+   */
+  trailingSlash?: SlashPolicy;
+  /**
+   * Match request paths with duplicate slashes like the path without them,
+   *  redirect them to it or match no route. Defaults to `ignore`.
+   */
+  duplicateSlashes?: SlashPolicy;
+  /**
+   * Match literal path segments case-insensitively.
+   */
+  caseInsensitive?: boolean;
+  /**
+   * Include the error stack and the name of the failing handler in the
+   *  default error responses. Don't use it in production.
+   */
+  dev?: boolean;
 }
 
-export class Router<UserData extends Record<string, unknown>> {
-  #routes: Record<RouteTypes, Record<RequestMethod, PathTrie<UserData>>> = {
-    filter: initRoutes<UserData>(),
-    hook: initRoutes<UserData>(),
-    handler: initRoutes<UserData>(),
-    fallback: initRoutes<UserData>(),
-    catcher: initRoutes<UserData>(),
-  };
+/**
+ * Checks that appending at `BasePath` provides the base params a child router
+ *  declares, eg. `Router<UserData, { userId: string }>` at `/users/:userId`.
+ */
+export type AppendBasePath<
+  BasePath extends string,
+  BaseParams extends ParamsRecord,
+  ChildBaseParams extends ParamsRecord
+> = RouteParams<`* ${BasePath}`, BaseParams> extends ChildBaseParams
+  ? unknown
+  : never;
+
+/**
+ * Routes of `Router.group` below its base path sharing the group filters,
+ *  hooks, catchers and fallbacks. Paths are relative to the base path.
+ */
+export interface RouteGroup<
+  UserData extends Record<string, unknown>,
+  GroupParams extends ParamsRecord,
+  State extends RequestState = Record<never, never>
+> {
+  /** Add filters called after the router filters of the group routes */
+  filter(
+    filters:
+      | Handler<UserData, GroupParams, State>
+      | Array<Handler<UserData, GroupParams, State>>
+  ): RouteGroup<UserData, GroupParams, State>;
+  /** Add hooks called after the router hooks of the group routes */
+  hook(
+    hooks:
+      | Handler<UserData, GroupParams, State>
+      | Array<Handler<UserData, GroupParams, State>>
+  ): RouteGroup<UserData, GroupParams, State>;
+  /** Add catchers called before the router catchers of the group routes */
+  catch(
+    catchers:
+      | Handler<UserData, GroupParams, State>
+      | Array<Handler<UserData, GroupParams, State>>
+  ): RouteGroup<UserData, GroupParams, State>;
+  /** Add fallbacks called before the router fallbacks of the group routes */
+  fallback(
+    fallbacks:
+      | Handler<UserData, GroupParams, State>
+      | Array<Handler<UserData, GroupParams, State>>
+  ): RouteGroup<UserData, GroupParams, State>;
+  /** Set main handlers like `Router.handle` in the group */
+  handle<MethodPath extends string>(
+    ...methodPaths: MethodPath[]
+  ): (
+    handlers:
+      | Handler<UserData, RouteParams<MethodPath, GroupParams>, State>
+      | Array<Handler<UserData, RouteParams<MethodPath, GroupParams>, State>>,
+    options?: RouteOptions
+  ) => RouteGroup<UserData, GroupParams, State>;
+  /** Nest a group whose routes share the handlers of both groups */
+  group<BasePath extends string>(
+    basePath: BasePath,
+    define: (
+      group: RouteGroup<
+        UserData,
+        RouteParams<`* ${BasePath}`, GroupParams>,
+        State
+      >
+    ) => void
+  ): RouteGroup<UserData, GroupParams, State>;
+}
+
+/**
+ * Declare the `pr.state` values a filter or hook adds, like:
+ * ```
+ *   const authenticate = withState<{ user: User }>()((pr) => {
+ *     pr.set("user", user);
+ *   });
+ *   router.filter("* /**")(authenticate).handle("GET /me")((pr) => {
+ *     return pr.json(pr.state.user);
+ *   });
+ * ```
+ * The handler sees the values it adds as optional.
+ *
+ * @returns a function returning the handler typed as a `StateHandler`
+ */
+export function withState<Added extends RequestState>(): <
+  UserData extends Record<string, unknown>,
+  Params extends ParamsRecord
+>(
+  handler: Handler<UserData, Params, Partial<Added>>
+) => StateHandler<UserData, Params, Added> {
+  return (handler) => handler;
+}
+
+/** Filters or hooks declaring the `pr.state` values they add */
+type StateHandlers<
+  UserData extends Record<string, unknown>,
+  Params extends ParamsRecord,
+  State extends RequestState,
+  Added extends RequestState
+> =
+  | (Handler<UserData, Params, State> & AddedState<Added>)
+  | Array<Handler<UserData, Params, State> & AddedState<Added>>;
+
+/** The part of a request matched by host scopes and mounting routers */
+interface RequestScope {
+  hostParams: ParamsRecord;
+  mountParams: ParamsRecord;
+  /** the request path the router is mounted at, eg. `/users/1` */
+  basePath: string;
+  /** the request path below `basePath` */
+  pathname: string;
+}
+
+export class Router<
+  UserData extends Record<string, unknown>,
+  BaseParams extends ParamsRecord = Record<never, never>,
+  State extends RequestState = Record<never, never>
+> {
+  #methods: Array<RouterMethod>;
+  #methodsSet: Set<RouterMethod>;
+  #routes: RouteTries<UserData>;
   #engines: RouterEnginesType = {
     render: undefined,
   };
-  #sets: Record<RouteTypes, Array<[string, Array<Handler<UserData>>]>> = {
+  #sets: RouteSets<UserData> = {
+    middleware: [],
     filter: [],
     hook: [],
     handler: [],
     fallback: [],
     catcher: [],
+    after: [],
   };
   #options?: RouterParams;
+  #trieOptions: PathTrieOptions;
+  /** the issues reported by `validate`, once after the routes change */
+  #issues?: Array<RouteIssue>;
+  #compiled?: CompiledRoutes<UserData>;
+  /** the versions of `versioning` and route conditions, once after changes */
+  #routeVersions?: Set<string>;
+  #names: Map<string, Array<[RouterMethod, PathParts]>> = new Map();
+  #hosts: Array<[HostPattern, Router<UserData, ParamsRecord>]> = [];
+  /** the options and groups of the handler sets */
+  #handlerSets: Map<
+    Array<Handler<UserData, ParamsRecord>>,
+    { options?: RouteOptions; group?: PathTrieGroup<UserData> }
+  > = new Map();
+  /** groups by base path, and the nodes at and below the base paths */
+  #groups: Array<[string, PathTrieGroup<UserData>]> = [];
+  #groupPaths: PathTrie<UserData>;
+  /** mounted routers with the base path and its trie */
+  #mounts: Array<[string, PathTrie<UserData>, Router<UserData, ParamsRecord>]> =
+    [];
 
   get options(): RouterParams | undefined {
     return this.#options;
@@ -84,20 +365,22 @@ export class Router<UserData extends Record<string, unknown>> {
     return this.#engines;
   }
 
-  get routes(): Record<RouteTypes, Record<RequestMethod, PathTrie<UserData>>> {
+  /** The built-in request methods followed by the extension methods */
+  get methods(): Array<RouterMethod> {
+    return this.#methods;
+  }
+
+  get routes(): RouteTries<UserData> {
     return this.#routes;
   }
 
-  get routeSets(): Record<
-    RouteTypes,
-    Array<[string, Array<Handler<UserData>>]>
-  > {
+  get routeSets(): RouteSets<UserData> {
     return this.#sets;
   }
 
   get routeTree(): Record<
     RouteTypes,
-    Record<RequestMethod, PathTrieNode<UserData>>
+    Record<RouterMethod, PathTrieNode<UserData>>
   > {
     return Object.fromEntries(
       Object.entries(this.#routes).map(([key, val]) => [
@@ -111,15 +394,100 @@ export class Router<UserData extends Record<string, unknown>> {
                 : null,
             ])
             .filter(([, val]) => !!val)
-        ) as Record<RequestMethod, PathTrieNode<UserData>>,
+        ) as Record<RouterMethod, PathTrieNode<UserData>>,
       ])
-    ) as Record<RouteTypes, Record<RequestMethod, PathTrieNode<UserData>>>;
+    ) as Record<RouteTypes, Record<RouterMethod, PathTrieNode<UserData>>>;
   }
 
   constructor(options?: RouterParams) {
+    const methods: Array<RouterMethod> = [...REQUEST_METHODS_LIST];
+    for (const method of options?.methods ?? []) {
+      const method_ = method.toUpperCase() as ExtensionMethod;
+      if (!METHOD_NAME_REGEX.test(method_)) {
+        throw new RouterError(`invalid method name \`${method}\``);
+      }
+      if (!methods.includes(method_)) methods.push(method_);
+    }
+    this.#methods = methods;
+    this.#methodsSet = new Set(methods);
+    this.#trieOptions = {
+      caseInsensitive: options?.caseInsensitive,
+      strictSlash: options?.trailingSlash === "strict",
+    };
+    this.#routes = {
+      middleware: initRoutes<UserData, Middleware<UserData, ParamsRecord>>(
+        methods,
+        this.#trieOptions
+      ),
+      filter: initRoutes<UserData>(methods, this.#trieOptions),
+      hook: initRoutes<UserData>(methods, this.#trieOptions),
+      handler: initRoutes<UserData>(methods, this.#trieOptions),
+      fallback: initRoutes<UserData>(methods, this.#trieOptions),
+      catcher: initRoutes<UserData>(methods, this.#trieOptions),
+      after: initRoutes<UserData>(methods, this.#trieOptions),
+    };
+    this.#groupPaths = new PathTrie<UserData>({
+      caseInsensitive: this.#trieOptions.caseInsensitive,
+    });
     this.#engines = options?.engines ?? {};
     this.#options = options;
     this.handleRequest = this.handleRequest.bind(this);
+    this.url = this.url.bind(this);
+  }
+
+  /**
+   * Set middleware for this router for the methods and paths defined by
+   *  `methodPath`.
+   *
+   * The middleware is called before the filters. It runs the filters, hooks,
+   *  main handlers and fallbacks by calling `next`, which resolves to their
+   *  response, so it can run code after them, eg. to time them or add
+   *  headers. It can return a response replacing theirs, or return one
+   *  without calling `next` to skip them. Errors thrown after it reject
+   *  `next`.
+   *
+   * **NOTE:** All matched middleware along the path trie will be called,
+   *  the outer paths wrapping the inner ones.
+   *
+   * @param methodPaths
+   * @returns
+   */
+  use<MethodPath extends string>(
+    ...methodPaths: MethodPath[]
+  ): (
+    middlewares:
+      | Middleware<UserData, RouteParams<MethodPath, BaseParams>, State>
+      | Array<Middleware<UserData, RouteParams<MethodPath, BaseParams>, State>>
+  ) => Router<UserData, BaseParams, State> {
+    return (middlewares) => {
+      for (const methodPath of methodPaths) {
+        const [methods, paths] = splitMethodPath(
+          methodPath.trim(),
+          this.#methods
+        );
+        // stored like handlers, called with `next` by `#handleMiddleware`
+        const middlewaresList = (
+          Array.isArray(middlewares) ? middlewares : [middlewares]
+        ) as Array<Middleware<UserData, ParamsRecord>>;
+        this.#routesChanged();
+        this.#sets.middleware.push([methodPath, middlewaresList]);
+        for (const method of methods) {
+          const routes = this.#routes.middleware[method];
+          for (const path of paths) {
+            routes.set(path, (route) => {
+              if (route.handlers != null) {
+                const wPath = "/" + paths.join("/");
+                throw new RouterError(
+                  `Overriding middleware ${method} ${route.path} with ${method} ${wPath}`
+                );
+              }
+              route.handlers = middlewaresList;
+            });
+          }
+        }
+      }
+      return this;
+    };
   }
 
   /**
@@ -129,18 +497,41 @@ export class Router<UserData extends Record<string, unknown>> {
    * The filter handlers are called first. Use them to filter requests.
    *   Use them to filter requests. Eg. **_rate limits_** and **_access control (CORS)_**.
    *
+   * Routes set on the returned router see the `pr.state` values declared by
+   *  `withState` filters as optional, as the filter paths may not cover them,
+   *  so even handlers set after an authentication filter check them like
+   *  `pr.state.user?.name`.
+   *
    * @param methodPaths
    * @returns
    */
-  filter(
-    ...methodPaths: string[]
-  ): (
-    catchers: Handler<UserData> | Array<Handler<UserData>>
-  ) => Router<UserData> {
-    return (filters: Handler<UserData> | Array<Handler<UserData>>) => {
+  filter<MethodPath extends string>(
+    ...methodPaths: MethodPath[]
+  ): <Added extends RequestState = Record<never, never>>(
+    filters: StateHandlers<
+      UserData,
+      RouteParams<MethodPath, BaseParams>,
+      State,
+      Added
+    >
+  ) => Router<UserData, BaseParams, State & Partial<Added>> {
+    return <Added extends RequestState>(
+      filters: StateHandlers<
+        UserData,
+        RouteParams<MethodPath, BaseParams>,
+        State,
+        Added
+      >
+    ) => {
       for (const methodPath of methodPaths) {
-        const [methods, paths] = splitMethodPath(methodPath.trim());
-        const filtersList = Array.isArray(filters) ? filters : [filters];
+        const [methods, paths] = splitMethodPath(
+          methodPath.trim(),
+          this.#methods
+        );
+        const filtersList = (
+          Array.isArray(filters) ? filters : [filters]
+        ) as Array<Handler<UserData, ParamsRecord>>;
+        this.#routesChanged();
         this.#sets.filter.push([methodPath, filtersList]);
         for (const method of methods) {
           const routes = this.#routes.filter[method];
@@ -157,7 +548,7 @@ export class Router<UserData extends Record<string, unknown>> {
           }
         }
       }
-      return this;
+      return this as Router<UserData, BaseParams, State & Partial<Added>>;
     };
   }
 
@@ -170,18 +561,39 @@ export class Router<UserData extends Record<string, unknown>> {
    * **NOTE:** All matched hook handlers along the path trie will be called.
    *  eg: hook at `/api/**` will be called when handling `/api/user/...`
    *
+   * Routes set on the returned router see the `pr.state` values declared by
+   *  `withState` hooks as optional, as the hook paths may not cover them.
+   *
    * @param methodPaths
    * @returns
    */
-  hook(
-    ...methodPaths: string[]
-  ): (
-    catchers: Handler<UserData> | Array<Handler<UserData>>
-  ) => Router<UserData> {
-    return (hooks: Handler<UserData> | Array<Handler<UserData>>) => {
+  hook<MethodPath extends string>(
+    ...methodPaths: MethodPath[]
+  ): <Added extends RequestState = Record<never, never>>(
+    hooks: StateHandlers<
+      UserData,
+      RouteParams<MethodPath, BaseParams>,
+      State,
+      Added
+    >
+  ) => Router<UserData, BaseParams, State & Partial<Added>> {
+    return <Added extends RequestState>(
+      hooks: StateHandlers<
+        UserData,
+        RouteParams<MethodPath, BaseParams>,
+        State,
+        Added
+      >
+    ) => {
       for (const methodPath of methodPaths) {
-        const [methods, paths] = splitMethodPath(methodPath.trim());
-        const hooksList = Array.isArray(hooks) ? hooks : [hooks];
+        const [methods, paths] = splitMethodPath(
+          methodPath.trim(),
+          this.#methods
+        );
+        const hooksList = (
+          Array.isArray(hooks) ? hooks : [hooks]
+        ) as Array<Handler<UserData, ParamsRecord>>;
+        this.#routesChanged();
         this.#sets.hook.push([methodPath, hooksList]);
         for (const method of methods) {
           const routes = this.#routes.hook[method];
@@ -198,7 +610,7 @@ export class Router<UserData extends Record<string, unknown>> {
           }
         }
       }
-      return this;
+      return this as Router<UserData, BaseParams, State & Partial<Added>>;
     };
   }
 
@@ -208,38 +620,88 @@ export class Router<UserData extends Record<string, unknown>> {
    *
    * The main handlers are called third. Use them to handle the requests.
    *
+   * Name the routes with `options.name` to build their urls with `url`.
+   *
    * @param methodPaths
    * @returns
    */
-  handle(
-    ...methodPaths: string[]
+  handle<MethodPath extends string>(
+    ...methodPaths: MethodPath[]
   ): (
-    catchers: Handler<UserData> | Array<Handler<UserData>>
-  ) => Router<UserData> {
-    return (handlers: Handler<UserData> | Array<Handler<UserData>>) => {
-      for (const methodPath of methodPaths) {
-        const [methods, paths] = splitMethodPath(methodPath.trim());
-        const handlersList = Array.isArray(handlers) ? handlers : [handlers];
-        this.#sets.handler.push([methodPath, handlersList]);
-        for (const method of methods) {
-          const routes = this.#routes.handler[method];
-          for (const path of paths) {
-            routes.set(path, (route) => {
-              if (route.handlers != null) {
-                const wPath = "/" + paths.join("/");
-                throw new RouterError(
-                  `Overriding handler ${method} ${route.path} with ${method} ${wPath}`
-                );
-              }
-              route.handlers = handlersList;
-            });
-          }
-        }
-      }
+    handlers:
+      | Handler<UserData, RouteParams<MethodPath, BaseParams>, State>
+      | Array<Handler<UserData, RouteParams<MethodPath, BaseParams>, State>>,
+    options?: RouteOptions
+  ) => Router<UserData, BaseParams, State> {
+    return (handlers, options) => {
+      this.#handle(
+        methodPaths,
+        handlers as
+          | Handler<UserData, ParamsRecord>
+          | Array<Handler<UserData, ParamsRecord>>,
+        options
+      );
       return this;
     };
   }
 
+  #handle(
+    methodPaths: Array<string>,
+    handlers:
+      | Handler<UserData, ParamsRecord>
+      | Array<Handler<UserData, ParamsRecord>>,
+    options?: RouteOptions,
+    group?: PathTrieGroup<UserData>
+  ) {
+    const name = options?.name;
+    const meta = options?.meta;
+    const matcher = options && compileRouteConditions(options);
+    if (name != null && this.#names.has(name)) {
+      throw new RouterError(`duplicate route name \`${name}\``);
+    }
+    const named: Array<[RouterMethod, PathParts]> = [];
+    for (const methodPath of methodPaths) {
+      const [methods, paths] = splitMethodPath(
+        methodPath.trim(),
+        this.#methods
+      );
+      const handlersList = Array.isArray(handlers) ? handlers : [handlers];
+      this.#routesChanged();
+      this.#sets.handler.push([methodPath, handlersList]);
+      this.#handlerSets.set(handlersList, { options, group });
+      for (const method of methods) {
+        const routes = this.#routes.handler[method];
+        for (const path of paths) {
+          routes.set(path, (route) => {
+            if (matcher != null) {
+              if (group != null) route.group = group;
+              route.variants = [
+                ...(route.variants ?? []),
+                { matcher, handlers: handlersList, meta },
+              ];
+              route.handlers ??= [];
+              return;
+            }
+            if (
+              route.handlers != null &&
+              (route.variants == null || route.handlers.length > 0)
+            ) {
+              const wPath = "/" + paths.join("/");
+              throw new RouterError(
+                `Overriding handler ${method} ${route.path} with ${method} ${wPath}`
+              );
+            }
+            route.handlers = handlersList;
+            route.group = group;
+            if (meta != null) route.meta = { ...route.meta, ...meta };
+          });
+          named.push([method, path]);
+        }
+      }
+    }
+    if (name != null) this.#names.set(name, named);
+  }
+
   /**
    * Set fallback handlers for this router for the methods and paths defined by
    *  `methodPath`.
@@ -250,17 +712,23 @@ export class Router<UserData extends Record<string, unknown>> {
    * @param methodPaths
    * @returns
    */
-  fallback(
-    ...methodPaths: string[]
+  fallback<MethodPath extends string>(
+    ...methodPaths: MethodPath[]
   ): (
-    catchers: Handler<UserData> | Array<Handler<UserData>>
-  ) => Router<UserData> {
-    return (fallbacks: Handler<UserData> | Array<Handler<UserData>>) => {
+    fallbacks:
+      | Handler<UserData, RouteParams<MethodPath, BaseParams>, State>
+      | Array<Handler<UserData, RouteParams<MethodPath, BaseParams>, State>>
+  ) => Router<UserData, BaseParams, State> {
+    return (fallbacks) => {
       for (const methodPath of methodPaths) {
-        const [methods, paths] = splitMethodPath(methodPath.trim());
-        const fallbacksList = Array.isArray(fallbacks)
-          ? fallbacks
-          : [fallbacks];
+        const [methods, paths] = splitMethodPath(
+          methodPath.trim(),
+          this.#methods
+        );
+        const fallbacksList = (
+          Array.isArray(fallbacks) ? fallbacks : [fallbacks]
+        ) as Array<Handler<UserData, ParamsRecord>>;
+        this.#routesChanged();
         this.#sets.fallback.push([methodPath, fallbacksList]);
         for (const method of methods) {
           const routes = this.#routes.fallback[method];
@@ -294,15 +762,23 @@ export class Router<UserData extends Record<string, unknown>> {
    * @param methodPaths
    * @returns
    */
-  catch(
-    ...methodPaths: string[]
+  catch<MethodPath extends string>(
+    ...methodPaths: MethodPath[]
   ): (
-    catchers: Handler<UserData> | Array<Handler<UserData>>
-  ) => Router<UserData> {
-    return (catchers: Handler<UserData> | Array<Handler<UserData>>) => {
+    catchers:
+      | Handler<UserData, RouteParams<MethodPath, BaseParams>, State>
+      | Array<Handler<UserData, RouteParams<MethodPath, BaseParams>, State>>
+  ) => Router<UserData, BaseParams, State> {
+    return (catchers) => {
       for (const methodPath of methodPaths) {
-        const [methods, paths] = splitMethodPath(methodPath.trim());
-        const catchersList = Array.isArray(catchers) ? catchers : [catchers];
+        const [methods, paths] = splitMethodPath(
+          methodPath.trim(),
+          this.#methods
+        );
+        const catchersList = (
+          Array.isArray(catchers) ? catchers : [catchers]
+        ) as Array<Handler<UserData, ParamsRecord>>;
+        this.#routesChanged();
         this.#sets.catcher.push([methodPath, catchersList]);
         for (const method of methods) {
           const routes = this.#routes.catcher[method];
@@ -323,14 +799,76 @@ export class Router<UserData extends Record<string, unknown>> {
     };
   }
 
+  /**
+   * Set after handlers for this router for the methods and paths defined by
+   *  `methodPath`.
+   *
+   * The after handlers are called last, once there is a response, even one
+   *  of the catchers. They see it as `pr.response` and can return another
+   *  response replacing it. Use them to add headers, compress or audit
+   *  responses.
+   *
+   * **NOTE:** All matched after handlers along the path trie will be called.
+   *
+   * @param methodPaths
+   * @returns
+   */
+  after<MethodPath extends string>(
+    ...methodPaths: MethodPath[]
+  ): (
+    handlers:
+      | Handler<UserData, RouteParams<MethodPath, BaseParams>, State>
+      | Array<Handler<UserData, RouteParams<MethodPath, BaseParams>, State>>
+  ) => Router<UserData, BaseParams, State> {
+    return (handlers) => {
+      for (const methodPath of methodPaths) {
+        const [methods, paths] = splitMethodPath(
+          methodPath.trim(),
+          this.#methods
+        );
+        const handlersList = (
+          Array.isArray(handlers) ? handlers : [handlers]
+        ) as Array<Handler<UserData, ParamsRecord>>;
+        this.#routesChanged();
+        this.#sets.after.push([methodPath, handlersList]);
+        for (const method of methods) {
+          const routes = this.#routes.after[method];
+          for (const path of paths) {
+            routes.set(path, (route) => {
+              if (route.handlers != null) {
+                const wPath = "/" + paths.join("/");
+                throw new RouterError(
+                  `Overriding after ${method} ${route.path} with ${method} ${wPath}`
+                );
+              }
+              route.handlers = handlersList;
+            });
+          }
+        }
+      }
+      return this;
+    };
+  }
+
   /**
    * Add all handlers from router with paths appended to `basePath` to this router.
    *
+   * Routers declaring `BaseParams` can only be appended at base paths that
+   *   provide them. eg. `Router<UserData, { userId: string }>` at `/users/:userId`.
+   *
    * @param basePath
    * @param router
    * @returns
    */
-  append(basePath: string, router: Router<UserData>): Router<UserData> {
+  append<BasePath extends string, ChildBaseParams extends ParamsRecord>(
+    basePath: BasePath &
+      AppendBasePath<BasePath, BaseParams, ChildBaseParams>,
+    router: Router<UserData, ChildBaseParams>
+  ): Router<UserData, BaseParams, State> {
+    // include middleware routes
+    for (const [methodPath, middlewares] of router.#sets.middleware) {
+      this.use(joinPath(basePath, methodPath))(middlewares);
+    }
     // include filter routes
     for (const [methodPath, filters] of router.#sets.filter) {
       this.filter(joinPath(basePath, methodPath))(filters);
@@ -339,9 +877,43 @@ export class Router<UserData extends Record<string, unknown>> {
     for (const [methodPath, hooks] of router.#sets.hook) {
       this.hook(joinPath(basePath, methodPath))(hooks);
     }
+    // include groups
+    for (const [groupPath, group] of router.#groups) {
+      this.#addGroup(joinBasePath(basePath, groupPath), group);
+    }
     // include handler routes
     for (const [methodPath, handlers] of router.#sets.handler) {
-      this.handle(joinPath(basePath, methodPath))(handlers);
+      const { options, group } = router.#handlerSets.get(handlers) ?? {};
+      this.#handle(
+        [joinPath(basePath, methodPath)],
+        handlers,
+        // names are included below
+        options && { ...options, name: undefined },
+        group
+      );
+    }
+    // include host scopes
+    for (const [host, hostRouter] of router.#hosts) {
+      this.host(host.source).append(basePath, hostRouter);
+    }
+    // include route names
+    for (const [name, named] of router.#names) {
+      if (this.#names.has(name)) {
+        throw new RouterError(`duplicate route name \`${name}\``);
+      }
+      this.#names.set(
+        name,
+        named.flatMap(([method, path]) => {
+          const methodPath = `${method} ${joinPathParts(path)}`;
+          const [, paths] = splitMethodPath(joinPath(basePath, methodPath), [
+            method,
+          ]);
+          return paths.map((path_): [RouterMethod, PathParts] => [
+            method,
+            path_,
+          ]);
+        })
+      );
     }
     // include fallback routes
     for (const [methodPath, fallbacks] of router.#sets.fallback) {
@@ -351,16 +923,472 @@ export class Router<UserData extends Record<string, unknown>> {
     for (const [methodPath, catchers] of router.#sets.catcher) {
       this.catch(joinPath(basePath, methodPath))(catchers);
     }
+    // include after routes
+    for (const [methodPath, handlers] of router.#sets.after) {
+      this.after(joinPath(basePath, methodPath))(handlers);
+    }
+    return this;
+  }
+
+  /**
+   * Get the router scoped to hosts matching `host`, eg. `api.example.com`,
+   *  `*.example.com` or `:tenant.example.com` with `tenant` in `pr.params`.
+   *
+   * Requests to matching hosts are handled by the scoped router alone, in
+   *  the order the scopes were added, other requests by this router.
+   *
+   * @param host host pattern with labels separated by `.`
+   * @returns the scoped router, the same one for the same `host`
+   */
+  host<Host extends string>(
+    host: Host
+  ): Router<UserData, BaseParams & HostParams<Host>> {
+    const pattern = parseHostPattern(host);
+    const scope = this.#hosts.find(
+      ([pattern_]) => pattern_.source === pattern.source
+    );
+    if (scope != null) {
+      return scope[1] as Router<UserData, BaseParams & HostParams<Host>>;
+    }
+    const hostRouter = new Router<UserData, ParamsRecord>(this.#options);
+    this.#hosts.push([pattern, hostRouter]);
+    return hostRouter as Router<UserData, BaseParams & HostParams<Host>>;
+  }
+
+  /**
+   * Group routes below `basePath` sharing filters, hooks, catchers and
+   *  fallbacks, like:
+   * ```
+   *   router.group("/admin", (admin) => {
+   *     admin.filter(requireAdmin);
+   *     admin.handle("GET /users")(listUsers);
+   *   });
+   * ```
+   * They apply to the handlers set in the group, whenever they are added,
+   *  and to the requests at or below `basePath` no handler matches. Group
+   *  filters and hooks are called after those of the router, outer groups
+   *  first, and group catchers and fallbacks before those of the router,
+   *  inner groups first. They are not set on the route tries, so they never
+   *  override routes.
+   *
+   * @param basePath the base path of the group routes
+   * @param define called with the group to set its routes and handlers
+   * @returns this router
+   */
+  group<BasePath extends string>(
+    basePath: BasePath,
+    define: (
+      group: RouteGroup<
+        UserData,
+        RouteParams<`* ${BasePath}`, BaseParams>,
+        State
+      >
+    ) => void
+  ): Router<UserData, BaseParams, State> {
+    define(this.#group(basePath));
+    return this;
+  }
+
+  #group<GroupParams extends ParamsRecord, GroupState extends RequestState>(
+    basePath: string,
+    parent?: PathTrieGroup<UserData>
+  ): RouteGroup<UserData, GroupParams, GroupState> {
+    const shared: PathTrieGroup<UserData> = {
+      parent,
+      filter: [],
+      hook: [],
+      fallback: [],
+      catcher: [],
+    };
+    this.#addGroup(basePath, shared);
+    const add =
+      (type: GroupRouteTypes) =>
+      (
+        handlers:
+          | Handler<UserData, GroupParams, GroupState>
+          | Array<Handler<UserData, GroupParams, GroupState>>
+      ) => {
+        shared[type].push(
+          ...((Array.isArray(handlers) ? handlers : [handlers]) as Array<
+            Handler<UserData, ParamsRecord>
+          >)
+        );
+        return group;
+      };
+    const group: RouteGroup<UserData, GroupParams, GroupState> = {
+      filter: add("filter"),
+      hook: add("hook"),
+      catch: add("catcher"),
+      fallback: add("fallback"),
+      handle:
+        (...methodPaths) =>
+        (handlers, options) => {
+          this.#handle(
+            methodPaths.map((methodPath) => joinPath(basePath, methodPath)),
+            handlers as
+              | Handler<UserData, ParamsRecord>
+              | Array<Handler<UserData, ParamsRecord>>,
+            options,
+            shared
+          );
+          return group;
+        },
+      group: (path, define) => {
+        define(this.#group(joinBasePath(basePath, path), shared));
+        return group;
+      },
+    };
+    return group;
+  }
+
+  /**
+   * Match the requests at and below `basePath` to `group`, whether a route
+   *  of the group handles them or not.
+   */
+  #addGroup(basePath: string, group: PathTrieGroup<UserData>) {
+    this.#groups.push([basePath, group]);
+    for (const path of splitPath(
+      basePath + "," + joinBasePath(basePath, "/**")
+    )) {
+      this.#groupPaths.set(path, (node) => {
+        node.handlers = [];
+        node.group = group;
+      });
+    }
+  }
+
+  /**
+   * Mount `router` at `basePath`. Unlike `append` its routes are not copied:
+   *  requests at or below `basePath` that `router` has routes for are handled
+   *  by it alone, with its own options, render engine, filters and catchers,
+   *  including routes added to it after mounting.
+   *
+   * Routers are tried in the order they were mounted and can be mounted at
+   *  several base paths and on several routers, but not below themselves.
+   *  `pr.pathname` is the path below the base path and `pr.urlFor` builds
+   *  urls below it.
+   *
+   * @param basePath the base path, eg. `/users/:userId`
+   * @param router the router to delegate requests to
+   * @returns this router
+   * @throws {RouterError} when `router` is this router or mounts it
+   */
+  mount<BasePath extends string, ChildBaseParams extends ParamsRecord>(
+    basePath: BasePath &
+      AppendBasePath<BasePath, BaseParams, ChildBaseParams>,
+    router: Router<UserData, ChildBaseParams>
+  ): Router<UserData, BaseParams, State> {
+    if ((router as Router<UserData, ParamsRecord>) === this) {
+      throw new RouterError("cannot mount a router on itself");
+    }
+    if (router.#isMounting(this as Router<UserData, ParamsRecord>)) {
+      throw new RouterError("cannot mount a router that mounts this router");
+    }
+    const bases = new PathTrie<UserData>({
+      caseInsensitive: this.#trieOptions.caseInsensitive,
+    });
+    for (const path of splitPath(basePath)) {
+      bases.set(path, (node) => (node.handlers = []));
+    }
+    this.#mounts.push([
+      basePath,
+      bases,
+      router as Router<UserData, ParamsRecord>,
+    ]);
+    return this;
+  }
+
+  /**
+   * Whether `router` is mounted on this router or below its mounted routers.
+   */
+  #isMounting(router: Router<UserData, ParamsRecord>): boolean {
+    return this.#mounts.some(
+      ([, , mounted]) => mounted === router || mounted.#isMounting(router)
+    );
+  }
+
+  /**
+   * The mounted router handling requests to `scope.pathname`, if any, and
+   *  its scope.
+   */
+  #mounted(
+    scope: RequestScope
+  ): [Router<UserData, ParamsRecord>, RequestScope] | undefined {
+    const { parts, trailingSlash } = splitRequestPath(scope.pathname);
+    for (const [, bases, router] of this.#mounts) {
+      // the longest base path first
+      for (let i = parts.length; i >= 0; i--) {
+        const base = bases.get(parts.slice(0, i));
+        if (base == null) continue;
+        const pathname =
+          "/" +
+          parts.slice(i).join("/") +
+          (trailingSlash && i < parts.length ? "/" : "");
+        if (!router.#handles(pathname)) break;
+        return [
+          router,
+          {
+            hostParams: scope.hostParams,
+            mountParams: routeParams(base, parts, { ...scope.mountParams }),
+            basePath:
+              scope.basePath +
+              parts
+                .slice(0, i)
+                .map((part) => "/" + part)
+                .join(""),
+            pathname,
+          },
+        ];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether a handler or fallback route of the router, or of a router
+   *  mounted on it, handles `pathname` for any method.
+   */
+  #handles(pathname: string): boolean {
+    const mounted = this.#mounted({
+      hostParams: {},
+      mountParams: {},
+      basePath: "",
+      pathname,
+    });
+    if (mounted != null) return true;
+    const { parts, trailingSlash, duplicateSlashes } =
+      splitRequestPath(pathname);
+    if (duplicateSlashes && this.options?.duplicateSlashes === "strict") {
+      return false;
+    }
+    return this.#compile().handles(parts, trailingSlash);
+  }
+
+  /**
+   * Replace the main handlers for the methods and paths defined by
+   *  `methodPath`, registering them if there are none.
+   *
+   * Requests in flight keep the handlers they already matched.
+   *
+   * @param methodPaths
+   * @returns
+   */
+  replace<MethodPath extends string>(
+    ...methodPaths: MethodPath[]
+  ): (
+    handlers:
+      | Handler<UserData, RouteParams<MethodPath, BaseParams>, State>
+      | Array<Handler<UserData, RouteParams<MethodPath, BaseParams>, State>>,
+    options?: RouteOptions
+  ) => Router<UserData, BaseParams, State> {
+    return (handlers, options) => {
+      const keys = this.#routeKeys(methodPaths);
+      this.#removeRoutes("handler", (key) => keys.has(key));
+      return this.handle(...methodPaths)(handlers, options);
+    };
+  }
+
+  /**
+   * Remove the routes of every route type set on exactly the methods and
+   *  paths defined by `methodPaths`. eg. removing `GET /a/:id` leaves
+   *  `GET /a/**` in place.
+   *
+   * Requests in flight keep the handlers they already matched.
+   *
+   * @param methodPaths
+   * @returns
+   */
+  remove(...methodPaths: string[]): Router<UserData, BaseParams, State> {
+    const keys = this.#routeKeys(methodPaths);
+    for (const routeType of ROUTE_TYPES_LIST) {
+      this.#removeRoutes(routeType, (key) => keys.has(key));
+    }
     return this;
   }
 
+  /**
+   * Remove the routes of every route type set on `basePath` or below it,
+   *  eg. the routes of a router appended at `basePath`.
+   *
+   * Requests in flight keep the handlers they already matched.
+   *
+   * @param basePath
+   * @returns
+   */
+  unmount(basePath: string): Router<UserData, BaseParams, State> {
+    const basePathsIds = splitPath(basePath).map(pathPartsIds);
+    const isBelow = (ids: Array<string>) =>
+      basePathsIds.some(
+        (baseIds) =>
+          baseIds.length <= ids.length &&
+          baseIds.every((id, i) => id === ids[i])
+      );
+    for (const routeType of ROUTE_TYPES_LIST) {
+      this.#removeRoutes(routeType, (_key, ids) => isBelow(ids));
+    }
+    this.#mounts = this.#mounts.filter(
+      ([mountPath]) => !splitPath(mountPath).map(pathPartsIds).some(isBelow)
+    );
+    return this;
+  }
+
+  #routeKeys(methodPaths: string[]): Set<string> {
+    const keys = new Set<string>();
+    for (const methodPath of methodPaths) {
+      const [methods, paths] = splitMethodPath(
+        methodPath.trim(),
+        this.#methods
+      );
+      for (const method of methods) {
+        for (const path of paths) {
+          keys.add(method + " /" + pathPartsIds(path).join("/"));
+        }
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Remove the matching routes of `routeType` from the route tries and
+   *  the route sets, keeping the rest of partially matching sets.
+   */
+  #removeRoutes<Type extends RouteTypes>(
+    routeType: Type,
+    match: (key: string, ids: Array<string>) => boolean
+  ) {
+    const sets: RouteSets<UserData>[Type] = [];
+    for (const set of this.#sets[routeType]) {
+      const [methodPath, handlers] = set;
+      const [methods, paths] = splitMethodPath(
+        methodPath.trim(),
+        this.#methods
+      );
+      const kept: Map<RouterMethod, Array<string>> = new Map();
+      let removed = false;
+      for (const method of methods) {
+        for (const path of paths) {
+          const ids = pathPartsIds(path);
+          if (match(method + " /" + ids.join("/"), ids)) {
+            this.#routes[routeType][method].delete(path);
+            removed = true;
+          } else {
+            const keptPaths = kept.get(method) ?? [];
+            keptPaths.push(joinPathParts(path));
+            kept.set(method, keptPaths);
+          }
+        }
+      }
+      if (!removed) {
+        sets.push(set);
+        continue;
+      }
+      for (const [method, keptPaths] of kept) {
+        sets.push([`${method} ${keptPaths.join(",")}`, handlers]);
+      }
+    }
+    this.#sets[routeType] = sets;
+    this.#routesChanged();
+    if (routeType !== "handler") return;
+    // forget the options of the removed handler sets
+    const keptHandlers = new Set(sets.map(([, handlers]) => handlers));
+    for (const handlers of this.#handlerSets.keys()) {
+      if (!keptHandlers.has(handlers)) this.#handlerSets.delete(handlers);
+    }
+    for (const [name, named] of this.#names) {
+      const kept = named.filter(([method, path]) => {
+        const ids = pathPartsIds(path);
+        return !match(method + " /" + ids.join("/"), ids);
+      });
+      if (kept.length === 0) this.#names.delete(name);
+      else this.#names.set(name, kept);
+    }
+  }
+
+  /**
+   * Build the url of the route named `name`, eg. `/users/1?tab=posts` for
+   *  `url("user", { id: 1 }, { tab: "posts" })` of `GET /users/:id<int>`.
+   *
+   * Of a route with several paths the first one the params fill is used.
+   *
+   * @param name the route name given to `handle`
+   * @param params the route params, percent-encoded
+   * @param query the query params
+   * @returns the path and search or throws RouterError if there is no such
+   *  route or a param is missing or does not match its constraint
+   */
+  url(name: string, params?: ParamsRecord, query?: UrlQuery): string {
+    const named = this.#names.get(name);
+    if (named == null) {
+      throw new RouterError(`unknown route name \`${name}\``);
+    }
+    return buildUrl(
+      name,
+      named.map(([, path]) => path),
+      params,
+      query
+    );
+  }
+
+  /**
+   * Report unreachable routes, params named differently at the same trie
+   *  node and middleware, filters, hooks or after handlers that never match
+   *  any handler or fallback.
+   *
+   * The issues are computed once after the routes change and cached, so
+   *  startup code can check the routes and `strictRoutes` requests reuse
+   *  them.
+   *
+   * @returns Array of issues, empty if there are none
+   */
+  validate(): Array<RouteIssue> {
+    this.#issues ??= validateRoutes(this.#routes, this.#sets, this.#methods);
+    return [...this.#issues];
+  }
+
+  /**
+   * List every route of every route type, ordered by route type, method and
+   *  then depth first by path.
+   *
+   * @returns Array of serializable route descriptions
+   */
+  listRoutes(): Array<RouteInfo> {
+    const routes: Array<RouteInfo> = [];
+    for (const type of ROUTE_TYPES_LIST) {
+      for (const method of this.#methods) {
+        for (const node of this.#routes[type][method].nodes()) {
+          routes.push({
+            type,
+            method,
+            path: node.pattern(),
+            params: [...(node.params?.keys() ?? [])],
+            handlerNames: [
+              ...(node.handlers ?? []),
+              ...(node.variants ?? []).flatMap(({ handlers }) => handlers),
+            ].map((handler) => handler.name || "anonymous"),
+            ...(node.meta != null ? { meta: node.meta } : {}),
+          });
+        }
+      }
+    }
+    for (const [basePath, , router] of this.#mounts) {
+      for (const route of router.listRoutes()) {
+        routes.push({
+          ...route,
+          path:
+            route.path === "/" ? basePath : trimEnd(basePath, "/") + route.path,
+        });
+      }
+    }
+    return routes;
+  }
+
   /**
    * Get the filter handlers on the specified method and path
    *
    * @param methodPath a simple method and path like GET /a/b
    * @returns Array of handlers or throws RouterError if none found
    */
-  getFilter(methodPath: `${string} /${string}`): Array<Handler<UserData>> {
+  getFilter(methodPath: `${string} /${string}`): Array<Handler<UserData, ParamsRecord>> {
     return this.get("filter", methodPath);
   }
 
@@ -370,7 +1398,7 @@ export class Router<UserData extends Record<string, unknown>> {
    * @param methodPath a simple method and path like GET /a/b
    * @returns Array of handlers or throws RouterError if none found
    */
-  getHook(methodPath: `${string} /${string}`): Array<Handler<UserData>> {
+  getHook(methodPath: `${string} /${string}`): Array<Handler<UserData, ParamsRecord>> {
     return this.get("hook", methodPath);
   }
 
@@ -380,7 +1408,7 @@ export class Router<UserData extends Record<string, unknown>> {
    * @param methodPath a simple method and path like GET /a/b
    * @returns Array of handlers or throws RouterError if none found
    */
-  getHandler(methodPath: `${string} /${string}`): Array<Handler<UserData>> {
+  getHandler(methodPath: `${string} /${string}`): Array<Handler<UserData, ParamsRecord>> {
     return this.get("handler", methodPath);
   }
 
@@ -390,7 +1418,7 @@ export class Router<UserData extends Record<string, unknown>> {
    * @param methodPath a simple method and path like GET /a/b
    * @returns Array of handlers or throws RouterError if none found
    */
-  getFallback(methodPath: `${string} /${string}`): Array<Handler<UserData>> {
+  getFallback(methodPath: `${string} /${string}`): Array<Handler<UserData, ParamsRecord>> {
     return this.get("fallback", methodPath);
   }
 
@@ -400,7 +1428,7 @@ export class Router<UserData extends Record<string, unknown>> {
    * @param methodPath a simple method and path like GET /a/b
    * @returns Array of handlers or throws RouterError if none found
    */
-  getCatcher(methodPath: `${string} /${string}`): Array<Handler<UserData>> {
+  getCatcher(methodPath: `${string} /${string}`): Array<Handler<UserData, ParamsRecord>> {
     return this.get("catcher", methodPath);
   }
 
@@ -411,50 +1439,60 @@ export class Router<UserData extends Record<string, unknown>> {
    * @param methodPath a simple method and path like GET /a/b
    * @returns Array of handlers or throws RouterError if none found
    */
-  get(
-    routeType: RouteTypes,
+  get<Type extends RouteTypes>(
+    routeType: Type,
     methodPath: `${string} /${string}`
-  ): Array<Handler<UserData>> {
+  ): Array<RouteTypeHandler<UserData, Type>> {
     const spaceIdx = methodPath.indexOf(" ");
     if (spaceIdx === -1) {
       throw new RouterError(`invalid methodPath ${methodPath}`);
     }
-    const method = methodPath
-      .substring(0, spaceIdx)
-      .toUpperCase() as RequestMethod;
+    const method = methodPath.substring(0, spaceIdx).toUpperCase();
+    if (!isRouterMethod(this.#methodsSet, method)) {
+      throw new RouterError(`invalid method \`${method}\``);
+    }
     const path = methodPath.substring(spaceIdx + 1);
     const pathParts = path?.split("/").filter(Boolean);
-    let route = undefined;
-    switch (routeType) {
-      case "filter": {
-        route = this.routes.filter[method].get(pathParts);
-        break;
-      }
-      case "hook": {
-        route = this.routes.hook[method].get(pathParts);
-        break;
-      }
-      case "handler": {
-        route = this.routes.handler[method].get(pathParts);
-        break;
-      }
-      case "fallback": {
-        route = this.routes.fallback[method].get(pathParts);
-        break;
-      }
-      case "catcher": {
-        route = this.routes.catcher[method].get(pathParts);
-        break;
-      }
-      default:
-        throw new RouterError(`Invalid route type ${routeType}`);
+    const routes = this.routes[routeType];
+    if (routes == null) {
+      throw new RouterError(`Invalid route type ${routeType}`);
     }
+    const route = routes[method].get(pathParts);
     if (route?.handlers == null) {
       throw new RouterError(`No handler found for ${methodPath} ${routeType}`);
     }
     return route.handlers;
   }
 
+  /**
+   * Get the methods that have handler or fallback routes on the path.
+   *
+   * @param pathname a url path like /a/b
+   * @returns Array of methods, empty if the path is not handled at all
+   */
+  allowedMethods(pathname: string): Array<RouterMethod> {
+    const mounted = this.#mounted({
+      hostParams: {},
+      mountParams: {},
+      basePath: "",
+      pathname,
+    });
+    if (mounted != null) {
+      return mounted[0].allowedMethods(mounted[1].pathname);
+    }
+    const { parts, trailingSlash, duplicateSlashes } =
+      splitRequestPath(pathname);
+    if (duplicateSlashes && this.options?.duplicateSlashes === "strict") {
+      return [];
+    }
+    const methods = this.#compile().methods(parts, trailingSlash);
+    if (methods.length === 0) return methods;
+    const methodsSet = new Set(methods);
+    if (this.options?.autoHead && methodsSet.has("GET")) methodsSet.add("HEAD");
+    if (this.options?.autoOptions) methodsSet.add("OPTIONS");
+    return this.#methods.filter((method) => methodsSet.has(method));
+  }
+
   /**
    * Main request handler.
    * Use this to handle requests like:
@@ -466,14 +1504,67 @@ export class Router<UserData extends Record<string, unknown>> {
    * @param info
    * @returns
    */
-  async handleRequest(
+  handleRequest(
     request: Request,
     info: Deno.ServeHandlerInfo<Deno.NetAddr>
   ): Promise<Response> {
+    return this.#handleRequest(request, info, {
+      hostParams: {},
+      mountParams: {},
+      basePath: "",
+      pathname: new URL(request.url).pathname,
+    });
+  }
+
+  async #handleRequest(
+    request: Request,
+    info: Deno.ServeHandlerInfo<Deno.NetAddr>,
+    scope: RequestScope
+  ): Promise<Response> {
+    if (this.#hosts.length > 0) {
+      const hostname = new URL(request.url).hostname;
+      for (const [pattern, hostRouter] of this.#hosts) {
+        const params = matchHost(pattern, hostname);
+        if (params != null) {
+          return hostRouter.#handleRequest(request, info, {
+            ...scope,
+            hostParams: { ...scope.hostParams, ...params },
+          });
+        }
+      }
+    }
+    const mounted = this.#mounted(scope);
+    if (mounted != null) {
+      return mounted[0].#handleRequest(request, info, mounted[1]);
+    }
+    if (this.options?.strictRoutes) {
+      const issues = this.validate();
+      if (issues.length > 0) {
+        throw new RouterError(
+          "invalid routes:\n" + issues.map((issue) => issue.message).join("\n")
+        );
+      }
+    }
     let response: undefined | Response = undefined;
     const performanceMark = performance.now();
     const url = new URL(request.url);
-    const method = request.method.toUpperCase() as RequestMethod;
+    // unsupported methods are refused below, in reach of the catchers
+    const method = request.method.toUpperCase() as RouterMethod;
+    const versioning = this.options?.versioning;
+    const requestPath = splitRequestPath(scope.pathname);
+    const { trailingSlash } = requestPath;
+    const urlPathParts = requestPath.parts;
+    // a version prefix of a known version and a routed path is stripped
+    const [version, pathParts] = resolveVersion(
+      urlPathParts,
+      request,
+      versioning,
+      (version, parts) =>
+        this.#versions().has(version) &&
+        this.#compile().handles(parts, trailingSlash)
+    );
+    // the method whose routes handle the request
+    let routeMethod = method;
     const contentTypeHeaders = request.headers
       .get("content-type")
       ?.split(";") as Array<string> | undefined;
@@ -501,65 +1592,131 @@ export class Router<UserData extends Record<string, unknown>> {
         cause: "cannot get a valid client address",
       });
     }
-    // process the request
-    const processedRequest = new ProcessedRequest(
-      info,
-      performanceMark,
-      method,
-      url,
-      request,
-      clientAddress,
-      clientPort,
-      {},
-      contentType,
-      content,
-      this.#engines.render
-    ) as ProcessedRequest & UserData;
+    // `UserData` is set on `pr` by the handlers
+    const userData: Partial<UserData> = {};
+    const processedRequest = Object.assign(
+      new ProcessedRequest<ParamsRecord, RequestState>(
+        info,
+        performanceMark,
+        method,
+        url,
+        request,
+        clientAddress,
+        clientPort,
+        {},
+        contentType,
+        content,
+        this.#engines.render,
+        scope.basePath
+          ? (name, params, query) =>
+              mountedUrl(scope.basePath, this.url(name, params, query))
+          : this.url
+      ),
+      userData
+    );
+    processedRequest.params = { ...scope.hostParams, ...scope.mountParams };
+    processedRequest.hostParams = scope.hostParams;
+    processedRequest.mountParams = scope.mountParams;
+    processedRequest.version = version;
+    processedRequest.pathname =
+      pathParts !== urlPathParts
+        ? "/" +
+          pathParts.join("/") +
+          (trailingSlash && pathParts.length ? "/" : "")
+        : scope.pathname;
+    // the routes of every route type in a single walk
+    const compiled =
+      requestPath.duplicateSlashes &&
+      this.options?.duplicateSlashes === "strict"
+        ? undefined
+        : this.#compile();
+    const noMatch: RouteMatch<UserData> = {
+      middleware: [],
+      filter: [],
+      hook: [],
+      catchers: [],
+      after: [],
+    };
+    let routeMatch =
+      compiled?.match(method, pathParts, trailingSlash) ?? noMatch;
+    // the routes of GET for HEAD requests without routes
+    if (
+      method === "HEAD" &&
+      this.options?.autoHead &&
+      routeMatch.handler == null &&
+      routeMatch.fallback == null
+    ) {
+      routeMethod = "GET";
+      routeMatch =
+        compiled?.match(routeMethod, pathParts, trailingSlash) ?? noMatch;
+    }
+    const location = requestPath.malformed
+      ? undefined
+      : this.#canonicalPath(
+          requestPath,
+          routeMatch.handler ?? routeMatch.fallback
+        );
+    if (location != null) {
+      routeMatch = noMatch;
+    } else if (requestPath.malformed) {
+      // only the catchers and the after handlers see malformed paths
+      routeMatch = {
+        ...noMatch,
+        catcher: routeMatch.catcher,
+        catchers: routeMatch.catchers,
+        after: routeMatch.after,
+      };
+    }
+    // the group of the handler, or else of the path
+    const groupRoute =
+      routeMatch.handler ?? this.#groupPaths.get(pathParts, trailingSlash);
+    const route = routeMatch.handler ?? routeMatch.fallback;
+    // the variant of the handler selected by its conditions
+    let variant: PathTrieVariant<UserData> | RouteMatchFailure | undefined;
+    let vary: Array<string> = [];
+    if (route?.variants != null) {
+      variant = selectRoute(route.variants, request, contentType, version);
+      vary = varyHeaders(route.variants, [
+        versioning?.header ?? "API-Version",
+        ...(versioning?.mediaTypeParam != null ? ["Accept"] : []),
+      ]);
+    }
+    if (route?.handlers != null) {
+      processedRequest.route = {
+        type: route === routeMatch.handler ? "handler" : "fallback",
+        method: routeMethod,
+        pattern: route.pattern(),
+        meta: (typeof variant === "object" ? variant.meta : route.meta) ?? {},
+      };
+    }
     try {
-      if (!REQUEST_METHODS_SET.has(method)) {
+      if (!this.#methodsSet.has(method)) {
         throw new RouterError(`method \`${method}\` not supported`);
       }
-      // filter routes
-      {
-        const [response_, curCallCount] = await this.#handleRoute(
-          processedRequest,
-          this.#routes.filter[method],
-          true
-        );
-        if (response_ != null) response = response_;
-        processedRequest.callCount += curCallCount;
-        processedRequest.filterCount = curCallCount;
+      if (requestPath.malformed) {
+        throw new HttpError("URI malformed", StatusCode.BadRequest);
       }
-      // hook routes
-      {
-        const [response_, curCallCount] = await this.#handleRoute(
-          processedRequest,
-          this.#routes.hook[method],
-          true
+      // redirect to the canonical path
+      if (location != null) {
+        response = processedRequest.redirect(
+          mountedUrl(scope.basePath, location) + url.search,
+          StatusCode.PermanentRedirect
         );
-        if (response_ != null) response = response_;
-        processedRequest.callCount += curCallCount;
-        processedRequest.hookCount = curCallCount;
-      }
-      // handler routes
-      if (response == null) {
-        const [response_, curCallCount] = await this.#handleRoute(
-          processedRequest,
-          this.#routes.handler[method]
-        );
-        if (response_ != null) response = response_;
-        processedRequest.callCount += curCallCount;
-        processedRequest.handleCount = curCallCount;
-      }
-      // fallback routes
-      if (response == null) {
-        const [response_, curCallCount] = await this.#handleRoute(
+      } else {
+        response = await this.#handleMiddleware(
           processedRequest,
-          this.#routes.fallback[method]
+          pathParts,
+          routeMatch.middleware,
+          () =>
+            this.#handlePhases(
+              processedRequest,
+              pathParts,
+              routeMatch,
+              groupRoute,
+              variant,
+              method
+            )
         );
-        if (response_ != null) response = response_;
-        processedRequest.callCount += curCallCount;
-        processedRequest.fallbackCount = curCallCount;
       }
     } catch (error) {
       processedRequest.error = !(error instanceof Error)
@@ -570,35 +1727,77 @@ export class Router<UserData extends Record<string, unknown>> {
       processedRequest.status(status);
       const [response_, curCallCount] = await this.#handleRoute(
         processedRequest,
-        this.#routes.catcher[method]
+        pathParts,
+        [
+          ...this.#groupRoutes(groupRoute, "catcher").reverse(),
+          // bubbling up to the outer catchers
+          ...routeMatch.catchers,
+        ]
       );
       processedRequest.callCount += curCallCount;
       processedRequest.catchCount = curCallCount;
       if (response_ != null) {
         response = response_;
       } else {
-        response = processedRequest.end();
-        // console.error("%c" + processedRequest.error.stack, "color:red");
+        response = errorResponse(
+          {
+            status: processedRequest.statusCode,
+            instance: url.pathname,
+            error: processedRequest.error,
+            handler: processedRequest.failedHandler,
+          },
+          request.headers.get("accept"),
+          processedRequest.headers,
+          this.options?.dev
+        );
       }
     } finally {
       const handlersCalled = processedRequest.handleCount > 0;
-      const status =
-        response != null
-          ? response.status
-          : handlersCalled
-          ? StatusCode.NoContent
-          : StatusCode.NotFound;
-      const statusText = StatusText.get(status);
-      processedRequest.responseTime = performance.now() - processedRequest.time;
       if (response == null) {
-        response = new Response(handlersCalled ? null : statusText, {
-          status,
-          statusText,
-          headers: {
-            "Content-Type": "text/plain; charset=UTF-8",
+        response = handlersCalled
+          ? new Response(null, {
+              status: StatusCode.NoContent,
+              statusText: StatusText.get(StatusCode.NoContent),
+              headers: {
+                "Content-Type": "text/plain; charset=UTF-8",
+              },
+            })
+          : errorResponse(
+              { status: StatusCode.NotFound, instance: url.pathname },
+              request.headers.get("accept")
+            );
+      }
+      // after routes
+      try {
+        response = await this.#handleAfter(
+          processedRequest,
+          pathParts,
+          routeMatch.after,
+          response
+        );
+      } catch (error) {
+        // the response is incomplete without the after handlers
+        processedRequest.error = !(error instanceof Error)
+          ? new Error(error ? "" + error : undefined)
+          : error;
+        processedRequest.status(StatusCode.InternalServerError);
+        response = errorResponse(
+          {
+            status: StatusCode.InternalServerError,
+            instance: url.pathname,
+            error: processedRequest.error,
+            handler: processedRequest.failedHandler,
           },
-        });
+          request.headers.get("accept"),
+          new Headers(),
+          this.options?.dev
+        );
       }
+      response = withVary(response, vary);
+      response = withDeprecationHeaders(response, version, versioning);
+      const status = response.status;
+      const statusText = StatusText.get(status);
+      processedRequest.responseTime = performance.now() - processedRequest.time;
       const logRequests = this.options?.log?.requests;
       if (logRequests) {
         logRequests({
@@ -609,35 +1808,372 @@ export class Router<UserData extends Record<string, unknown>> {
         });
       }
     }
+    if (method === "HEAD" && this.options?.autoHead) {
+      response = await this.#stripBody(response);
+    }
+    return response;
+  }
+
+  /**
+   * The path to redirect a request to under the `redirect` slash policies,
+   *  if its path is not the canonical one.
+   *
+   * @param requestPath the request path
+   * @param route the handler or fallback route matching the request
+   */
+  #canonicalPath(
+    requestPath: RequestPath,
+    route: PathTrieNode<UserData> | undefined
+  ): string | undefined {
+    const { parts } = requestPath;
+    let { trailingSlash } = requestPath;
+    let redirect =
+      requestPath.duplicateSlashes &&
+      this.options?.duplicateSlashes === "redirect";
+    if (
+      this.options?.trailingSlash === "redirect" &&
+      parts.length > 0 &&
+      route != null &&
+      route.id !== "**" &&
+      (route.id === "/") !== trailingSlash
+    ) {
+      trailingSlash = !trailingSlash;
+      redirect = true;
+    }
+    if (!redirect) return undefined;
+    return "/" + parts.join("/") + (trailingSlash && parts.length ? "/" : "");
+  }
+
+  /**
+   * The handlers of `type` of the groups of the handler route as routes on
+   *  its path, outer groups first.
+   */
+  #groupRoutes(
+    route: PathTrieNode<UserData> | undefined,
+    type: GroupRouteTypes
+  ): Array<PathTrieNode<UserData>> {
+    const routes: Array<PathTrieNode<UserData>> = [];
+    if (route == null) return routes;
+    for (let group = route.group; group != null; group = group.parent) {
+      if (group[type].length === 0) continue;
+      routes.unshift(
+        new PathTrieNode(
+          undefined,
+          route.path,
+          route.id,
+          group[type],
+          route.params
+        )
+      );
+    }
+    return routes;
+  }
+
+  /**
+   * Compile the route tries for matching, once after they change.
+   */
+  #compile(): CompiledRoutes<UserData> {
+    this.#compiled ??= new CompiledRoutes(
+      this.#routes,
+      this.#methods,
+      this.#trieOptions
+    );
+    return this.#compiled;
+  }
+
+  /**
+   * The versions of the routes and the default and deprecated versions.
+   */
+  #versions(): Set<string> {
+    if (this.#routeVersions == null) {
+      const versioning = this.options?.versioning;
+      const versions: Set<string> = new Set(
+        Object.keys(versioning?.deprecated ?? {})
+      );
+      if (versioning?.default != null) versions.add(versioning.default);
+      for (const { options } of this.#handlerSets.values()) {
+        const version = options?.version;
+        for (const version_ of Array.isArray(version) ? version : [version]) {
+          if (version_ != null) versions.add(version_);
+        }
+      }
+      this.#routeVersions = versions;
+    }
+    return this.#routeVersions;
+  }
+
+  #routesChanged() {
+    this.#issues = undefined;
+    this.#compiled = undefined;
+    this.#routeVersions = undefined;
+  }
+
+  async #stripBody(response: Response): Promise<Response> {
+    if (response.body == null) return response;
+    const headers = new Headers(response.headers);
+    if (headers.has("Content-Length")) {
+      await response.body.cancel();
+    } else {
+      const body = await response.arrayBuffer();
+      headers.set("Content-Length", body.byteLength.toFixed());
+    }
+    return new Response(null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+
+  /**
+   * Call the filters, hooks, main handlers and fallbacks of a request.
+   *
+   * @returns the response of the handlers, if any
+   */
+  async #handlePhases(
+    processedRequest: ProcessedRequest<ParamsRecord, RequestState> &
+      Partial<UserData>,
+    pathParts: Array<string>,
+    routeMatch: RouteMatch<UserData>,
+    groupRoute: PathTrieNode<UserData> | undefined,
+    variant: PathTrieVariant<UserData> | RouteMatchFailure | undefined,
+    method: RouterMethod
+  ): Promise<Response | undefined> {
+    let response: Response | undefined;
+    // filter routes
+    {
+      const [response_, curCallCount] = await this.#handleRoute(
+        processedRequest,
+        pathParts,
+        [
+          ...routeMatch.filter,
+          ...this.#groupRoutes(groupRoute, "filter"),
+        ]
+      );
+      if (response_ != null) response = response_;
+      processedRequest.callCount += curCallCount;
+      processedRequest.filterCount = curCallCount;
+    }
+    // hook routes
+    {
+      const [response_, curCallCount] = await this.#handleRoute(
+        processedRequest,
+        pathParts,
+        [
+          ...routeMatch.hook,
+          ...this.#groupRoutes(groupRoute, "hook"),
+        ]
+      );
+      if (response_ != null) response = response_;
+      processedRequest.callCount += curCallCount;
+      processedRequest.hookCount = curCallCount;
+    }
+    // automatic options
+    if (
+      response == null &&
+      method === "OPTIONS" &&
+      this.options?.autoOptions &&
+      routeMatch.handler == null &&
+      routeMatch.fallback == null
+    ) {
+      const allowedMethods = this.allowedMethods(processedRequest.pathname);
+      if (allowedMethods.length > 0) {
+        processedRequest.headers.set("Allow", allowedMethods.join(", "));
+        response = processedRequest.end(StatusCode.NoContent, true);
+      }
+    }
+    // handler routes
+    if (response == null) {
+      const [response_, curCallCount] = await this.#handleRoute(
+        processedRequest,
+        pathParts,
+        [routeMatch.handler],
+        variant
+      );
+      if (response_ != null) response = response_;
+      processedRequest.callCount += curCallCount;
+      processedRequest.handleCount = curCallCount;
+    }
+    // fallback routes
+    if (response == null) {
+      const [response_, curCallCount] = await this.#handleRoute(
+        processedRequest,
+        pathParts,
+        [
+          ...this.#groupRoutes(groupRoute, "fallback").reverse(),
+          routeMatch.fallback,
+        ]
+      );
+      if (response_ != null) response = response_;
+      processedRequest.callCount += curCallCount;
+      processedRequest.fallbackCount = curCallCount;
+    }
+    // method not allowed
+    if (
+      response == null &&
+      processedRequest.handleCount === 0 &&
+      processedRequest.fallbackCount === 0 &&
+      this.options?.methodNotAllowed !== false
+    ) {
+      const allowedMethods = this.allowedMethods(processedRequest.pathname);
+      if (allowedMethods.length > 0 && !allowedMethods.includes(method)) {
+        processedRequest.headers.set("Allow", allowedMethods.join(", "));
+        throw new HttpError(
+          StatusText.get(StatusCode.MethodNotAllowed),
+          StatusCode.MethodNotAllowed
+        );
+      }
+    }
+    return response;
+  }
+
+  /**
+   * Call the middleware of a request, each running the ones after it and
+   *  finally `handle` with its `next`.
+   *
+   * @returns the response of the middleware or else the one of `handle`
+   */
+  async #handleMiddleware(
+    processedRequest: ProcessedRequest<ParamsRecord, RequestState> &
+      Partial<UserData>,
+    pathParts: Array<string>,
+    routes: Array<PathTrieNode<UserData, Middleware<UserData, ParamsRecord>>>,
+    handle: Next
+  ): Promise<Response | undefined> {
+    const middlewares = routes.flatMap((route) =>
+      (route.handlers ?? []).map((middleware) => ({ route, middleware }))
+    );
+    const call = async (index: number): Promise<Response | undefined> => {
+      if (index === middlewares.length) return handle();
+      const { route, middleware } = middlewares[index];
+      if (route.params) {
+        processedRequest.params = routeParams(route, pathParts, {
+          ...processedRequest.hostParams,
+          ...processedRequest.mountParams,
+        });
+      }
+      let pending: Promise<Response | undefined> | undefined;
+      let settled = false;
+      let downstream: Response | undefined;
+      const next = () => {
+        if (pending != null) {
+          return Promise.reject(
+            new RouterError("`next` called more than once")
+          );
+        }
+        pending = call(index + 1)
+          .then((response) => (downstream = response))
+          .finally(() => {
+            settled = true;
+          });
+        // rejections the middleware does not await are thrown below
+        pending.catch(() => {});
+        return pending;
+      };
+      processedRequest.callCount += 1;
+      processedRequest.middlewareCount += 1;
+      let response_;
+      try {
+        response_ = middleware.apply(this, [processedRequest, next]);
+        if (response_ instanceof Promise) response_ = await response_;
+      } catch (error) {
+        // errors of the handlers after it keep their handler
+        processedRequest.failedHandler ??= middleware.name || "anonymous";
+        throw error;
+      }
+      if (response_ instanceof Response) return response_;
+      // the handlers after it are still running if `next` was not awaited
+      if (pending != null && !settled) await pending;
+      return downstream;
+    };
+    return await call(0);
+  }
+
+  /**
+   * Call the after handlers of a request with its response.
+   *
+   * @returns the response of the last handler returning one, else `response`
+   */
+  async #handleAfter(
+    processedRequest: ProcessedRequest<ParamsRecord, RequestState> &
+      Partial<UserData>,
+    pathParts: Array<string>,
+    routes: Array<PathTrieNode<UserData>>,
+    response: Response
+  ): Promise<Response> {
+    for (const route of routes) {
+      if (route.params) {
+        processedRequest.params = routeParams(route, pathParts, {
+          ...processedRequest.hostParams,
+          ...processedRequest.mountParams,
+        });
+      }
+      for (const handler of route.handlers ?? []) {
+        processedRequest.response = response;
+        processedRequest.statusCode = response.status;
+        processedRequest.callCount += 1;
+        processedRequest.afterCount += 1;
+        let response_;
+        try {
+          response_ = handler.apply(this, [processedRequest]);
+          if (response_ instanceof Promise) response_ = await response_;
+        } catch (error) {
+          processedRequest.failedHandler = handler.name || "anonymous";
+          throw error;
+        }
+        if (response_ instanceof Response) response = response_;
+      }
+    }
     return response;
   }
 
   async #handleRoute(
-    processedRequest: ProcessedRequest & UserData,
-    mRoutes: PathTrie<UserData>,
-    callAll?: boolean
+    processedRequest: ProcessedRequest<ParamsRecord, RequestState> &
+      Partial<UserData>,
+    pathParts: Array<string>,
+    routes: Array<PathTrieNode<UserData> | undefined>,
+    variant?: PathTrieVariant<UserData> | RouteMatchFailure
   ): Promise<[Response | undefined, number]> {
-    const pathParts = processedRequest.url.pathname.split("/").filter(Boolean);
-    const routes = callAll
-      ? mRoutes.getAll(pathParts)
-      : [mRoutes.get(pathParts)];
     let callCount = 0;
     for (const route of routes) {
       if (route != null) {
-        const handlers = route.handlers;
+        let handlers = route.handlers;
         if (route.params) {
-          const params: Record<string, string> = {};
-          for (const [id, param] of route.params.entries()) {
-            params[id] = pathParts[param.index] ?? null;
+          processedRequest.params = routeParams(route, pathParts, {
+            ...processedRequest.hostParams,
+            ...processedRequest.mountParams,
+          });
+        }
+        // the variant selected once by `#handleRequest`
+        if (route.variants != null && variant != null) {
+          if (typeof variant !== "string") {
+            handlers = variant.handlers;
+          } else if (handlers?.length === 0) {
+            if (variant === "content-type") {
+              throw new HttpError(
+                StatusText.get(StatusCode.UnsupportedMediaType),
+                StatusCode.UnsupportedMediaType
+              );
+            }
+            if (variant === "accept") {
+              throw new HttpError(
+                StatusText.get(StatusCode.NotAcceptable),
+                StatusCode.NotAcceptable
+              );
+            }
           }
-          processedRequest.params = params;
         }
         if (handlers != null) {
           for (let i = 0; i < handlers.length; i++) {
             callCount += i + 1;
             const handler = handlers[i];
-            let response_ = handler.apply(this, [processedRequest]);
-            if (response_ instanceof Promise) response_ = await response_;
+            let response_;
+            try {
+              response_ = handler.apply(this, [processedRequest]);
+              if (response_ instanceof Promise) response_ = await response_;
+            } catch (error) {
+              processedRequest.failedHandler ??= handler.name || "anonymous";
+              throw error;
+            }
             if (response_ instanceof Response) {
               return [response_, callCount];
             }
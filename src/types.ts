@@ -21,7 +21,164 @@ export type RequestMethod =
   | "PATCH"
   | "DELETE";
 
-export type RouteTypes = "filter" | "hook" | "handler" | "fallback" | "catcher";
+declare const extensionMethod: unique symbol;
+
+/**
+ * Extension methods registered on a router with `RouterParams.methods`,
+ *  like `QUERY` or WebDAV's `PROPFIND`. Branded so that `RouterMethod` is not
+ *  widened to any string.
+ */
+export type ExtensionMethod = string & { readonly [extensionMethod]: true };
+
+export type RouterMethod = RequestMethod | ExtensionMethod;
+
+export type RouteTypes =
+  | "middleware"
+  | "filter"
+  | "hook"
+  | "handler"
+  | "fallback"
+  | "catcher"
+  | "after";
+
+/**
+ * A serializable description of a route as returned by `Router.listRoutes`.
+ */
+export interface RouteInfo {
+  type: RouteTypes;
+  method: RouterMethod;
+  path: string;
+  params: Array<string>;
+  handlerNames: Array<string>;
+  meta?: RouteMeta;
+}
+
+/**
+ * Declarative facts about a route, like its required scopes, cache policy or
+ *  OpenAPI summary, set with `RouteOptions.meta`.
+ */
+export type RouteMeta = Record<string, unknown>;
+
+/**
+ * The route handling a request as `ProcessedRequest.route`: the matching
+ *  handler route or else the matching fallback route.
+ */
+export interface MatchedRoute {
+  type: "handler" | "fallback";
+  method: RouterMethod;
+  /** the path the route was set on, eg. `/users/:id<int>` */
+  pattern: string;
+  meta: RouteMeta;
+}
+
+/**
+ * - `unreachable`: the route can never be matched.
+ * - `param-names`: routes name the param at the same trie node differently.
+ * - `unmatched`: the middleware, filter, hook or after handler never matches
+ *  any handler or fallback.
+ */
+export type RouteIssueKind = "unreachable" | "param-names" | "unmatched";
+
+/**
+ * A problem in the route table as reported by `Router.validate`.
+ */
+export interface RouteIssue {
+  kind: RouteIssueKind;
+  type: RouteTypes;
+  /** the method of the route, or its methods like `GET|POST` when unmatched */
+  method: string;
+  path: string;
+  message: string;
+}
+
+/**
+ * Conditions on the request for routes registered with `Router.handle`.
+ *  Several routes can be set on the same method and path with different
+ *  conditions, the first one matching the request handles it.
+ *
+ * - `accept`: media types the route responds with, negotiated with the
+ *   `Accept` header. Answered with 406 when no route is acceptable.
+ * - `contentType`: media types of the request body the route accepts.
+ *   Answered with 415 when no route accepts the request content.
+ * - `headers`: header values or predicates, a `null` value requiring the
+ *   header to be absent.
+ * - `version`: the API versions the route serves, see `RouteVersioning`.
+ */
+export interface RouteConditions {
+  accept?: MatchContentTypes | Array<MatchContentTypes>;
+  contentType?: MatchContentTypes | Array<MatchContentTypes>;
+  headers?: Record<
+    string,
+    string | RegExp | null | ((value: string | null) => boolean)
+  >;
+  version?: string | Array<string>;
+}
+
+/**
+ * A deprecated API version. `since` and `sunset` set the `Deprecation` and
+ *  `Sunset` headers and `link` a `Link` header to the migration guide.
+ */
+export interface VersionDeprecation {
+  since: Date;
+  sunset?: Date;
+  link?: string;
+}
+
+/**
+ * How the API version of a request is resolved for routes with a `version`
+ *  condition, in order:
+ *
+ * - `path`: from a leading path segment like `/v2`, routes being matched on
+ *   the path without it. Only versions of route conditions, the default or
+ *   deprecated ones are stripped, and only when the rest of the path is
+ *   routed, so literal routes like `/v1/legacy` stay reachable.
+ * - `header`: from the header, defaults to `API-Version`.
+ * - `mediaTypeParam`: from the media type parameter of the `Accept` header,
+ *   eg. `version` for `application/json; version=2`.
+ * - `default`: the version of requests that specify none.
+ *
+ * Responses to `deprecated` versions get deprecation headers.
+ */
+export interface RouteVersioning {
+  path?: boolean;
+  header?: string;
+  mediaTypeParam?: string;
+  default?: string;
+  deprecated?: Record<string, VersionDeprecation>;
+}
+
+/**
+ * How request paths with a trailing slash or duplicate slashes are matched:
+ *
+ * - `ignore`: like the path without them.
+ * - `redirect`: redirected with `308 Permanent Redirect` to the path of the
+ *   matching route, or without duplicate slashes.
+ * - `strict`: a trailing slash only by routes set with it, duplicate
+ *   slashes by no route.
+ */
+export type SlashPolicy = "ignore" | "redirect" | "strict";
+
+/**
+ * Options for routes registered with `Router.handle`.
+ *
+ * - `name`: name the route for building its url with `Router.url`.
+ * - `meta`: metadata of the route, merged with that of other routes set
+ *   on the same method and path with conditions.
+ */
+export interface RouteOptions extends RouteConditions {
+  name?: string;
+  meta?: RouteMeta;
+}
+
+export type UrlQuery =
+  | URLSearchParams
+  | Record<string, ParamValue | Array<ParamValue> | undefined>;
+
+export type UrlBuilder = (
+  name: string,
+  params?: ParamsRecord,
+  query?: UrlQuery
+) => string;
 
 export type TextContentTypes = `text/${
   | "plain"
@@ -65,20 +222,306 @@ export type ContentTypes =
   | VideoContentTypes
   | MultipartContentTypes;
 
+/** A media type or a category of media types like `text` */
+export type MatchContentTypes = ContentTypeCategories | ContentTypes;
+
 export type Content = {
   type: ContentTypes;
   length: number;
   boundary?: string;
 } & Record<string, string>;
 
-export type PathParts = Array<[string, string | undefined]>;
+export type ParamValue = string | number | boolean;
+
+export type ParamsRecord = Record<string, ParamValue | undefined>;
+
+/**
+ * Value types of the built-in param constraints. Augment this interface to
+ *  type constraints registered with `defineParamConstraint`.
+ */
+export interface ParamConstraintTypes {
+  int: number;
+  uint: number;
+  float: number;
+  bool: boolean;
+  alpha: string;
+  alnum: string;
+  hex: string;
+  slug: string;
+  date: string;
+  uuid: string;
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & unknown;
+
+type TrimStart<S extends string> = S extends ` ${infer R}` ? TrimStart<R> : S;
+type TrimEnd<S extends string> = S extends `${infer R} ` ? TrimEnd<R> : S;
+type Trim<S extends string> = TrimStart<TrimEnd<S>>;
+
+type SplitOn<S extends string, D extends string> =
+  S extends `${infer A}${D}${infer B}` ? A | SplitOn<B, D> : S;
+
+type ConstraintValue<C extends string> = C extends keyof ParamConstraintTypes
+  ? ParamConstraintTypes[C]
+  : string;
+
+type AlternativesValue<A extends string> = A extends "" | "*" | "**"
+  ? string
+  : Exclude<SplitOn<A, "|">, "">;
+
+type Digit = "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9";
+
+type WordChar = Digit | "_" | Lowercase<Letter> | Letter;
+
+type Letter =
+  | "A"
+  | "B"
+  | "C"
+  | "D"
+  | "E"
+  | "F"
+  | "G"
+  | "H"
+  | "I"
+  | "J"
+  | "K"
+  | "L"
+  | "M"
+  | "N"
+  | "O"
+  | "P"
+  | "Q"
+  | "R"
+  | "S"
+  | "T"
+  | "U"
+  | "V"
+  | "W"
+  | "X"
+  | "Y"
+  | "Z";
+
+type IsLiteral<S extends string> = S extends `${infer C}${infer R}`
+  ? C extends WordChar | "-" | "." | "%"
+    ? IsLiteral<R>
+    : false
+  : true;
+
+/** [leading word, rest] */
+type TakeWord<
+  S extends string,
+  Acc extends string = ""
+> = S extends `${infer C}${infer R}`
+  ? C extends WordChar
+    ? TakeWord<R, `${Acc}${C}`>
+    : [Acc, S]
+  : [Acc, S];
+
+/** Mirrors `hasAlternatives`: a `|` outside of parentheses. */
+type HasAlternatives<
+  S extends string,
+  Depth extends Array<unknown> = []
+> = S extends `${infer C}${infer R}`
+  ? C extends "\\"
+    ? R extends `${string}${infer Rest}`
+      ? HasAlternatives<Rest, Depth>
+      : false
+    : C extends "("
+    ? HasAlternatives<R, [...Depth, unknown]>
+    : C extends ")"
+    ? HasAlternatives<R, Depth extends [unknown, ...infer D] ? D : []>
+    : C extends "|"
+    ? Depth extends []
+      ? true
+      : HasAlternatives<R, Depth>
+    : HasAlternatives<R, Depth>
+  : false;
+
+/** Mirrors `isSegmentPattern`, eg. `:name.:ext`, `v:major(\d+)` or `@:user`. */
+type IsSegmentPattern<S extends string> = HasAlternatives<S> extends true
+  ? false
+  : S extends `${infer Prefix}:${infer After}`
+  ? Prefix extends "*" | "**"
+    ? false
+    : IsLiteral<Prefix> extends false
+    ? true
+    : TakeWord<After>[1] extends `(${string}`
+    ? true
+    : TakeWord<After>[1] extends `<${string}>${infer Tail}`
+    ? Prefix extends ""
+      ? Tail extends ""
+        ? false
+        : true
+      : true
+    : TakeWord<After>[1] extends ""
+    ? false
+    : true
+  : false;
+
+type PatternParam<S extends string> = S extends `${string}:${infer After}`
+  ? TakeWord<After> extends [
+      infer Name extends string,
+      infer Rest extends string
+    ]
+    ?
+        | {
+            name: Name;
+            value: Rest extends `<${infer C}>${string}`
+              ? ConstraintValue<C>
+              : string;
+            optional: false;
+          }
+        | PatternParam<Rest>
+    : never
+  : never;
+
+type SegmentParam<S extends string> = S extends string
+  ? IsSegmentPattern<S> extends true
+    ? PatternParam<S>
+    : AlternativesParam<S>
+  : never;
+
+type AlternativesParam<S extends string> =
+  S extends `${infer Alternatives}:${infer Rest}`
+    ? Rest extends `${infer Name}<${infer C}>`
+      ? { name: Trim<Name>; value: ConstraintValue<C>; optional: false }
+      : {
+          name: Trim<Rest>;
+          value: AlternativesValue<Trim<Alternatives>>;
+          optional: "" extends SplitOn<Trim<Alternatives>, "|">
+            ? Trim<Alternatives> extends ""
+              ? false
+              : true
+            : false;
+        }
+    : never;
+
+type ParamsFromSegments<
+  E extends { name: string; value: unknown; optional: boolean }
+> = Simplify<
+  {
+    [P in E as P["optional"] extends true ? never : P["name"]]: P["value"];
+  } & {
+    [P in E as P["optional"] extends true ? P["name"] : never]?: P["value"];
+  }
+>;
+
+/**
+ * Params of a single path like `/users/:id<int>/posts/:postId`.
+ */
+export type PathParams<Path extends string> = string extends Path
+  ? Record<string, string>
+  : Path extends string
+  ? ParamsFromSegments<SegmentParam<SplitOn<Trim<Path>, "/">>>
+  : never;
+
+/**
+ * Params of a host pattern like `:tenant.example.com`.
+ */
+export type HostParams<Host extends string> = string extends Host
+  ? Record<string, string>
+  : ParamsFromSegments<SegmentParam<SplitOn<Trim<Host>, ".">>>;
+
+type AllKeys<U> = U extends unknown ? keyof U : never;
+
+type RequiredKeys<T> = {
+  [K in keyof T]-?: Record<never, never> extends Pick<T, K> ? never : K;
+}[keyof T];
+
+type NotRequiredInSome<U, All extends PropertyKey = AllKeys<U>> =
+  U extends unknown ? Exclude<All, RequiredKeys<U>> : never;
+
+type ValueOf<U, K extends PropertyKey> = U extends unknown
+  ? K extends keyof U
+    ? Exclude<U[K], undefined>
+    : never
+  : never;
+
+/** Merges alternative params: keys missing from some paths become optional. */
+type MergeParams<U> = Simplify<
+  {
+    [K in Exclude<AllKeys<U>, NotRequiredInSome<U>>]: ValueOf<U, K>;
+  } & {
+    [K in NotRequiredInSome<U>]?: ValueOf<U, K>;
+  }
+>;
+
+type MethodPathParams<MethodPath extends string> =
+  Trim<MethodPath> extends `${string} ${infer Paths}`
+    ? PathParams<SplitOn<Paths, ",">>
+    : never;
+
+/**
+ * Params of the method paths given to `Router.handle` and friends, like
+ *  `GET /users/:id/posts/:postId` or `GET /|home|about:page,/docs/:page`,
+ *  including the `BaseParams` of a router appended at a parameterized path.
+ */
+export type RouteParams<
+  MethodPath extends string,
+  BaseParams extends ParamsRecord = Record<never, never>
+> = Simplify<
+  (string extends MethodPath
+    ? Record<string, string>
+    : MergeParams<
+        MethodPath extends string ? MethodPathParams<MethodPath> : never
+      >) &
+    BaseParams
+>;
+
+/**
+ * Path segments as `[segment, paramId?, constraint?]` where `constraint` is
+ *  the source between `<` and `>` in `:param<constraint>`.
+ */
+export type PathParts = Array<[string, string | undefined, string?]>;
 export type HandlerResult =
   | Response
   | Promise<Response>
   | Promise<Response | undefined | void>
   | undefined
   | void;
-export type Handler<UserData extends Record<string, unknown>> = (
+/** Request-scoped values in `ProcessedRequest.state` */
+export type RequestState = Record<string, unknown>;
+/**
+ * `UserData` are properties handlers set on `pr` itself, optional until a
+ *  handler sets them, `State` are the typed values in `pr.state` added by
+ *  earlier filters and hooks, see `withState`.
+ */
+export type Handler<
+  UserData extends Record<string, unknown>,
+  Params extends ParamsRecord = Record<string, string>,
+  State extends RequestState = Record<never, never>
+> = (
   this: Router<UserData>,
-  pr: ProcessedRequest & UserData
+  pr: ProcessedRequest<Params, State> & Partial<UserData>
 ) => HandlerResult;
+
+/** Run the handlers after a middleware, resolving to their response if any */
+export type Next = () => Promise<Response | undefined>;
+/**
+ * A handler wrapping the handlers after it, set with `Router.use`. It runs
+ *  them by calling `next` and can return a response replacing theirs.
+ */
+export type Middleware<
+  UserData extends Record<string, unknown>,
+  Params extends ParamsRecord = Record<string, string>,
+  State extends RequestState = Record<never, never>
+> = (
+  this: Router<UserData>,
+  pr: ProcessedRequest<Params, State> & Partial<UserData>,
+  next: Next
+) => HandlerResult;
+
+declare const addedState: unique symbol;
+/** The `pr.state` values declared by a `StateHandler` */
+export type AddedState<Added extends RequestState> = {
+  readonly [addedState]?: Added;
+};
+/**
+ * A filter or hook declaring the `pr.state` values it adds. Routes set after
+ *  it on the router returned by `filter` or `hook` see them in `pr.state`.
+ */
+export type StateHandler<
+  UserData extends Record<string, unknown>,
+  Params extends ParamsRecord,
+  Added extends RequestState
+> = Handler<UserData, Params, Partial<Added>> & AddedState<Added>;
@@ -0,0 +1,420 @@
+/**
+ * File: src/util/compiled-routes.ts
+ *
+ * Compiled route tries resolving the routes of every route type of a request path at once.
+ *
+ * Used by the router to match requests once routes are registered, instead of looking up each path trie separately.
+ */
+
+import type {
+  Middleware,
+  ParamsRecord,
+  RouterMethod,
+  RouteTypes,
+} from "../types.ts";
+import { matchParam, type ParamConstraint } from "./param.ts";
+import {
+  type PathLookup,
+  pathLookup,
+  type PathTrieNode,
+  type PathTrieOptions,
+  type RouteTries,
+  type RouteTypeHandler,
+} from "./path-trie.ts";
+import {
+  matchSegmentPattern,
+  type SegmentPattern,
+} from "./segment-pattern.ts";
+
+/** the bit of each route type in the route type masks */
+const typeBits: Readonly<Record<RouteTypes, number>> = {
+  middleware: 1,
+  filter: 2,
+  hook: 4,
+  handler: 8,
+  fallback: 16,
+  catcher: 32,
+  after: 64,
+};
+
+/** the route types all the matching routes of are collected */
+const collectedTypes =
+  typeBits.middleware |
+  typeBits.filter |
+  typeBits.hook |
+  typeBits.catcher |
+  typeBits.after;
+
+/** the route types the best matching route of is found */
+const foundTypes = typeBits.handler | typeBits.fallback | typeBits.catcher;
+
+/** the path trie nodes with handlers of a compiled node by route type */
+type CompiledRoutesOf<UserData extends Record<string, unknown>> = {
+  [Type in RouteTypes]?: PathTrieNode<
+    UserData,
+    RouteTypeHandler<UserData, Type>
+  >;
+};
+
+/**
+ * A child of a compiled node tried in order, with the route types it is a
+ *  child of in that position: route types defining the same constrained
+ *  params or segment patterns in different orders get one entry each.
+ */
+interface CompiledChild<UserData extends Record<string, unknown>> {
+  readonly node: CompiledNode<UserData>;
+  readonly types: number;
+}
+
+/** the nodes of every route type on a path, merged and frozen */
+interface CompiledNode<UserData extends Record<string, unknown>> {
+  readonly routes: CompiledRoutesOf<UserData>;
+  /** the route types with handlers on this node */
+  readonly handled: number;
+  /** the route types with handlers on this node or below it */
+  readonly types: number;
+  readonly constraint?: ParamConstraint;
+  readonly segmentPattern?: SegmentPattern;
+  readonly children: ReadonlyMap<string, CompiledNode<UserData>>;
+  readonly constrained: ReadonlyArray<CompiledChild<UserData>>;
+  readonly patterns: ReadonlyArray<CompiledChild<UserData>>;
+  readonly glob?: CompiledNode<UserData>;
+  readonly greedyGlob?: CompiledNode<UserData>;
+  readonly slashed?: CompiledNode<UserData>;
+}
+
+/**
+ * The routes matching a request, middleware, filters, hooks and after
+ *  handlers being all the matching routes like `PathTrie.getAll` and the
+ *  others the best matching route like `PathTrie.get`.
+ */
+export interface RouteMatch<UserData extends Record<string, unknown>> {
+  middleware: Array<
+    PathTrieNode<UserData, Middleware<UserData, ParamsRecord>>
+  >;
+  filter: Array<PathTrieNode<UserData>>;
+  hook: Array<PathTrieNode<UserData>>;
+  handler?: PathTrieNode<UserData>;
+  fallback?: PathTrieNode<UserData>;
+  catcher?: PathTrieNode<UserData>;
+  /**
+   * The catchers an error bubbles through, `catcher` first and then the
+   *  other catchers along the path, inner ones first.
+   */
+  catchers: Array<PathTrieNode<UserData>>;
+  after: Array<PathTrieNode<UserData>>;
+}
+
+/** the state of a walk of the compiled nodes */
+interface CompiledWalk<UserData extends Record<string, unknown>> {
+  readonly lookup: PathLookup;
+  /** the route types still looked for */
+  pending: number;
+  /** the route types found so far */
+  found: number;
+  readonly match: RouteMatch<UserData>;
+}
+
+/**
+ * The route tries of a router compiled for matching, the tries of every
+ *  route type of a method merged into one frozen tree walked once per
+ *  lookup. Compile again after the route tries change.
+ */
+export class CompiledRoutes<UserData extends Record<string, unknown>> {
+  readonly #roots: ReadonlyMap<RouterMethod, CompiledNode<UserData>>;
+  readonly #options?: PathTrieOptions;
+
+  /**
+   * @param routes the route tries by route type and method
+   * @param methods the methods of the router
+   * @param options the lookup options the route tries were created with
+   */
+  constructor(
+    routes: RouteTries<UserData>,
+    methods: Array<RouterMethod>,
+    options?: PathTrieOptions
+  ) {
+    const roots: Map<RouterMethod, CompiledNode<UserData>> = new Map();
+    for (const method of methods) {
+      roots.set(
+        method,
+        compileNodes({
+          middleware: routes.middleware[method].root,
+          filter: routes.filter[method].root,
+          hook: routes.hook[method].root,
+          handler: routes.handler[method].root,
+          fallback: routes.fallback[method].root,
+          catcher: routes.catcher[method].root,
+          after: routes.after[method].root,
+        })
+      );
+    }
+    this.#roots = roots;
+    this.#options = options;
+    Object.freeze(this);
+  }
+
+  /**
+   * Match the routes of every route type in a single walk, decoding the
+   *  path once.
+   *
+   * @param method the route method
+   * @param pathParts the path segments, not yet decoded
+   * @param trailingSlash whether the path ends with a slash
+   * @returns the matching routes
+   */
+  match(
+    method: RouterMethod,
+    pathParts: Array<string>,
+    trailingSlash = false
+  ): RouteMatch<UserData> {
+    const match = this.#walk(
+      method,
+      pathLookup(pathParts, trailingSlash, this.#options),
+      collectedTypes | foundTypes
+    );
+    // the collected catchers are the outer ones first
+    const { catcher, catchers } = match;
+    match.catchers =
+      catcher != null
+        ? [catcher, ...catchers.reverse().filter((node) => node !== catcher)]
+        : [];
+    return match;
+  }
+
+  /**
+   * The methods with a handler or fallback matching the path, in the order
+   *  of the methods of the router, decoding the path once.
+   *
+   * @param pathParts the path segments, not yet decoded
+   * @param trailingSlash whether the path ends with a slash
+   */
+  methods(
+    pathParts: Array<string>,
+    trailingSlash = false
+  ): Array<RouterMethod> {
+    const lookup = pathLookup(pathParts, trailingSlash, this.#options);
+    return [...this.#roots.keys()].filter((method) =>
+      this.#handled(method, lookup)
+    );
+  }
+
+  /**
+   * Whether a handler or fallback of any method matches the path, decoding
+   *  the path once.
+   *
+   * @param pathParts the path segments, not yet decoded
+   * @param trailingSlash whether the path ends with a slash
+   */
+  handles(pathParts: Array<string>, trailingSlash = false): boolean {
+    const lookup = pathLookup(pathParts, trailingSlash, this.#options);
+    for (const method of this.#roots.keys()) {
+      if (this.#handled(method, lookup)) return true;
+    }
+    return false;
+  }
+
+  #handled(method: RouterMethod, lookup: PathLookup): boolean {
+    const { handler, fallback } = this.#walk(
+      method,
+      lookup,
+      typeBits.handler | typeBits.fallback
+    );
+    return handler != null || fallback != null;
+  }
+
+  #walk(
+    method: RouterMethod,
+    lookup: PathLookup,
+    types: number
+  ): RouteMatch<UserData> {
+    const walk: CompiledWalk<UserData> = {
+      lookup,
+      pending: types,
+      found: 0,
+      match: {
+        middleware: [],
+        filter: [],
+        hook: [],
+        catchers: [],
+        after: [],
+      },
+    };
+    const root = this.#roots.get(method);
+    if (root != null) walkNode(root, 0, types, walk);
+    return walk.match;
+  }
+}
+
+/**
+ * Merge the nodes of the route types on the same path into a compiled node.
+ *
+ * @param nodes the nodes of the route types on the path
+ */
+function compileNodes<UserData extends Record<string, unknown>>(
+  nodes: CompiledRoutesOf<UserData>
+): CompiledNode<UserData> {
+  const routes: CompiledRoutesOf<UserData> = {};
+  let handled = 0;
+  let constraint: ParamConstraint | undefined = undefined;
+  let segmentPattern: SegmentPattern | undefined = undefined;
+  // the children of every route type by id
+  const childNodes: Map<string, CompiledRoutesOf<UserData>> = new Map();
+  for (const type of Object.keys(typeBits) as Array<RouteTypes>) {
+    const node = nodes[type];
+    if (node == null) continue;
+    constraint ??= node.constraint;
+    segmentPattern ??= node.segmentPattern;
+    if (node.handlers != null) {
+      Object.assign(routes, { [type]: node });
+      handled |= typeBits[type];
+    }
+    for (const [id, child] of node.children) {
+      const typeNodes = childNodes.get(id) ?? {};
+      Object.assign(typeNodes, { [type]: child });
+      childNodes.set(id, typeNodes);
+    }
+  }
+  const children: Map<string, CompiledNode<UserData>> = new Map();
+  let types = handled;
+  for (const [id, typeNodes] of childNodes) {
+    const child = compileNodes(typeNodes);
+    children.set(id, child);
+    types |= child.types;
+  }
+  return Object.freeze({
+    routes: Object.freeze(routes),
+    handled,
+    types,
+    constraint,
+    segmentPattern,
+    children,
+    constrained: orderedChildren(nodes, children, "constrained"),
+    patterns: orderedChildren(nodes, children, "patterns"),
+    glob: children.get("*"),
+    greedyGlob: children.get("**"),
+    slashed: children.get("/"),
+  });
+}
+
+/**
+ * Merge the ordered children of the route types, keeping the order of each
+ *  route type: a child is tried again further on for the route types
+ *  ordering it after a child tried before it.
+ */
+function orderedChildren<UserData extends Record<string, unknown>>(
+  nodes: CompiledRoutesOf<UserData>,
+  children: ReadonlyMap<string, CompiledNode<UserData>>,
+  key: "constrained" | "patterns"
+): ReadonlyArray<CompiledChild<UserData>> {
+  const ordered: Array<{ id: string; types: number }> = [];
+  for (const type of Object.keys(typeBits) as Array<RouteTypes>) {
+    let next = 0;
+    for (const { id } of nodes[type]?.[key] ?? []) {
+      let i = ordered.findIndex((child, j) => j >= next && child.id === id);
+      if (i === -1) {
+        i = next;
+        ordered.splice(i, 0, { id: id!, types: 0 });
+      }
+      ordered[i].types |= typeBits[type];
+      next = i + 1;
+    }
+  }
+  return Object.freeze(
+    ordered.map(({ id, types }) =>
+      Object.freeze({ node: children.get(id)!, types })
+    )
+  );
+}
+
+/**
+ * Walk the compiled nodes matching the path depth first, trying the children
+ *  like `PathTrie.get`: the literal child, the constrained params and the
+ *  segment patterns in definition order, then `*`, and the `**` after them.
+ *  The routes of the collected types are gathered along the way like
+ *  `PathTrie.getAll`, and the first route of each found type is kept.
+ *
+ * @param types the route types to look for below the node
+ */
+function walkNode<UserData extends Record<string, unknown>>(
+  node: CompiledNode<UserData>,
+  i: number,
+  types: number,
+  walk: CompiledWalk<UserData>
+) {
+  const pending = types & node.types & walk.pending;
+  if (pending === 0) return;
+  const { lookup } = walk;
+  if (i === lookup.parts.length) {
+    // the node set on the same trailing slash as the path first
+    const first = lookup.trailingSlash ? node.slashed : node;
+    const second = lookup.strictSlash
+      ? undefined
+      : lookup.trailingSlash
+      ? node
+      : node.slashed;
+    if (first != null) findRoutes(first, pending, walk);
+    if (second != null) findRoutes(second, pending, walk);
+    if (second != null) collectRoutes(second, pending, walk);
+    if (first != null) collectRoutes(first, pending, walk);
+    return;
+  }
+  const part = lookup.parts[i];
+  const key = lookup.keys[i];
+  const { glob, greedyGlob } = node;
+  if (greedyGlob != null) collectRoutes(greedyGlob, pending, walk);
+  const literal = node.children.get(key);
+  if (literal != null && literal !== glob && key !== "**" && key !== "/") {
+    walkNode(literal, i + 1, pending, walk);
+  }
+  for (const child of node.constrained) {
+    if ((child.types & pending) === 0) continue;
+    if (matchParam(child.node.constraint!, part)) {
+      walkNode(child.node, i + 1, pending & child.types, walk);
+    }
+  }
+  for (const child of node.patterns) {
+    if ((child.types & pending) === 0) continue;
+    if (matchSegmentPattern(child.node.segmentPattern!, part)) {
+      walkNode(child.node, i + 1, pending & child.types, walk);
+    }
+  }
+  if (glob != null) walkNode(glob, i + 1, pending, walk);
+  if (greedyGlob != null) findRoutes(greedyGlob, pending, walk);
+}
+
+/** keep the routes of the found types of `node` not found yet */
+function findRoutes<UserData extends Record<string, unknown>>(
+  node: CompiledNode<UserData>,
+  types: number,
+  walk: CompiledWalk<UserData>
+) {
+  const found = node.handled & types & foundTypes & ~walk.found;
+  if (found === 0) return;
+  walk.found |= found;
+  const { match } = walk;
+  if (found & typeBits.handler) match.handler = node.routes.handler;
+  if (found & typeBits.fallback) match.fallback = node.routes.fallback;
+  if (found & typeBits.catcher) match.catcher = node.routes.catcher;
+  // the collected types stay pending
+  walk.pending &= ~(found & ~collectedTypes);
+}
+
+/** gather the routes of the collected types of `node` */
+function collectRoutes<UserData extends Record<string, unknown>>(
+  node: CompiledNode<UserData>,
+  types: number,
+  walk: CompiledWalk<UserData>
+) {
+  const collected = node.handled & types & collectedTypes;
+  if (collected === 0) return;
+  const { match } = walk;
+  const { routes } = node;
+  if (collected & typeBits.middleware) {
+    match.middleware.push(routes.middleware!);
+  }
+  if (collected & typeBits.filter) match.filter.push(routes.filter!);
+  if (collected & typeBits.hook) match.hook.push(routes.hook!);
+  if (collected & typeBits.catcher) match.catchers.push(routes.catcher!);
+  if (collected & typeBits.after) match.after.push(routes.after!);
+}
@@ -0,0 +1,117 @@
+/**
+ * File: src/util/error-response.ts
+ *
+ * Default error responses as RFC 9457 problem details, HTML or plain text depending on the `Accept` header.
+ *
+ * Used by the router when no catcher responds to an error.
+ */
+
+import { HttpError, ProblemError, type ProblemDetails } from "../error.ts";
+import { StatusText } from "../status/text.ts";
+import { acceptQuality, parseAccept } from "./negotiation.ts";
+
+const JSON_TYPES: Set<string> = new Set([
+  "application/json",
+  "application/problem+json",
+]);
+const HTML_TYPES: Set<string> = new Set(["text/html"]);
+
+/** A failed request as rendered by `errorResponse` */
+export interface ErrorDetails {
+  status: number;
+  /** the request path */
+  instance: string;
+  error?: Error;
+  /** the name of the handler that threw `error` */
+  handler?: string;
+}
+
+/**
+ * Render an error response in the format the request accepts most: problem
+ *  details for JSON, an HTML page or else the status text. Errors are
+ *  converted with `ProblemError.from`, and `ProblemError`s are rendered as
+ *  JSON unless HTML is accepted. The stack, the message of other errors and
+ *  the failing handler are only included in development mode.
+ *
+ * @param details the failed request
+ * @param accept the `Accept` header
+ * @param headers the response headers
+ * @param dev whether to include the stack and the failing handler
+ * @returns the error response
+ */
+export function errorResponse(
+  details: ErrorDetails,
+  accept: string | null,
+  headers: Headers = new Headers(),
+  dev = false
+): Response {
+  const { status, instance, error, handler } = details;
+  let problem = ProblemError.from(error ?? new HttpError(undefined, status));
+  // the status set by the catchers, the title of `about:blank` problems
+  //  being the status text
+  if (problem.status !== status) {
+    problem = new ProblemError(status, {
+      ...problem.extensions,
+      type: problem.type,
+      title: problem.type !== "about:blank" ? problem.title : undefined,
+      detail: problem.detail,
+      instance: problem.instance,
+    });
+  }
+  const document: ProblemDetails = {
+    ...problem.toJSON(),
+    instance: problem.instance ?? instance,
+  };
+  if (dev) {
+    document.detail ??= error?.message || undefined;
+    document.handler = handler;
+    document.stack = error?.stack;
+  }
+  // wildcards keep the plain text response
+  const ranges = parseAccept(accept).filter(([range]) => range !== "*/*");
+  const jsonQuality = acceptQuality(ranges, JSON_TYPES);
+  const htmlQuality = acceptQuality(ranges, HTML_TYPES);
+  const title = problem.title;
+  let body: string;
+  if (
+    jsonQuality >= htmlQuality &&
+    (jsonQuality > 0 || error instanceof ProblemError)
+  ) {
+    headers.set("Content-Type", "application/problem+json");
+    body = JSON.stringify(document);
+  } else if (htmlQuality > 0) {
+    headers.set("Content-Type", "text/html; charset=UTF-8");
+    body =
+      `<!DOCTYPE html><html><head><meta charset="utf-8">` +
+      `<title>${status} ${escapeHtml(title)}</title></head><body>` +
+      `<h1>${status} ${escapeHtml(title)}</h1>` +
+      (document.detail != null
+        ? `<p>${escapeHtml(String(document.detail))}</p>`
+        : "") +
+      (document.handler != null
+        ? `<p>in <code>${escapeHtml(String(document.handler))}</code></p>`
+        : "") +
+      (document.stack != null
+        ? `<pre>${escapeHtml(String(document.stack))}</pre>`
+        : "") +
+      `</body></html>`;
+  } else {
+    headers.set("Content-Type", "text/plain; charset=UTF-8");
+    body = [title, document.handler && `in ${document.handler}`, document.stack]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+  return new Response(body, {
+    status,
+    statusText: StatusText.get(status),
+    headers,
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
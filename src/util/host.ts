@@ -0,0 +1,92 @@
+/**
+ * File: src/util/host.ts
+ *
+ * Host patterns like `:tenant.example.com` or `**.example.com` for host scoped routers.
+ *
+ * Used by the router to match the request hostname before matching its path.
+ */
+
+import { RouterError } from "../error.ts";
+import type { ParamsRecord } from "../types.ts";
+import {
+  coerceParam,
+  matchParam,
+  type ParamConstraint,
+  paramConstraint,
+} from "./param.ts";
+
+export interface HostPattern {
+  source: string;
+  /** labels as `[label, paramId, constraint]`, label being `*` for params */
+  labels: Array<[string, string | undefined, ParamConstraint | undefined]>;
+}
+
+/**
+ * @param source host pattern with labels separated by `.` like
+ *   `api.example.com`, `:tenant.example.com`, `:id<uint>.example.com`,
+ *   `*.example.com` or `**:sub.example.com`. `**` matches one or more
+ *   labels and is only allowed as the first label.
+ * @returns the parsed pattern
+ */
+export function parseHostPattern(source: string): HostPattern {
+  // dots inside constraints do not separate labels
+  const parts = source.trim().toLowerCase().split(/\.(?![^<]*>)/);
+  const labels: HostPattern["labels"] = [];
+  for (let i = 0; i < parts.length; i++) {
+    let label = parts[i];
+    let paramId = undefined;
+    let constraint = undefined;
+    const colonIdx = label.indexOf(":");
+    if (colonIdx !== -1) {
+      paramId = label.substring(colonIdx + 1);
+      label = label.substring(0, colonIdx) || "*";
+      const constraintIdx = paramId.indexOf("<");
+      if (constraintIdx !== -1 && paramId.endsWith(">")) {
+        constraint = paramConstraint(
+          paramId.substring(constraintIdx + 1, paramId.length - 1)
+        );
+        paramId = paramId.substring(0, constraintIdx);
+      }
+      if (!paramId || (label !== "*" && label !== "**")) {
+        throw new RouterError(`invalid host param in ${source}`);
+      }
+    }
+    if (!label || (label === "**" && i > 0)) {
+      throw new RouterError(`invalid host pattern ${source}`);
+    }
+    labels.push([label, paramId, constraint]);
+  }
+  return { source, labels };
+}
+
+/**
+ * @param pattern parsed host pattern
+ * @param hostname the request hostname, eg. `url.hostname`
+ * @returns the host params or undefined if the hostname does not match
+ */
+export function matchHost(
+  pattern: HostPattern,
+  hostname: string
+): ParamsRecord | undefined {
+  const hostLabels = hostname.toLowerCase().split(".");
+  const labels = pattern.labels;
+  const rest = labels[0]?.[0] === "**" ? hostLabels.length - labels.length : 0;
+  if (rest < 0 || (rest === 0 && hostLabels.length !== labels.length)) {
+    return undefined;
+  }
+  const params: ParamsRecord = {};
+  for (let i = 0; i < labels.length; i++) {
+    const [label, paramId, constraint] = labels[i];
+    const value =
+      label === "**"
+        ? hostLabels.slice(0, rest + 1).join(".")
+        : hostLabels[i + rest];
+    if (label !== "*" && label !== "**" && label !== value) return undefined;
+    if (constraint != null && !matchParam(constraint, value)) return undefined;
+    if (paramId != null) {
+      params[paramId] =
+        constraint != null ? coerceParam(constraint, value) : value;
+    }
+  }
+  return params;
+}
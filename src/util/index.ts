@@ -8,30 +8,50 @@
 
 import { REQUEST_METHODS_LIST, REQUEST_METHODS_SET } from "../defs.ts";
 import { RouterError } from "../error.ts";
-import type { PathParts, RequestMethod } from "../types.ts";
+import type { PathParts, RouterMethod } from "../types.ts";
+import { isSegmentPattern, parseSegmentPattern } from "./segment-pattern.ts";
+
+/**
+ * @param methodsSet the methods of a router
+ * @param method an upper cased method name
+ * @returns whether `method` is one of `methodsSet`
+ */
+export function isRouterMethod(
+  methodsSet: ReadonlySet<RouterMethod>,
+  method: string
+): method is RouterMethod {
+  return (methodsSet as ReadonlySet<string>).has(method);
+}
 
 /**
  * @param methodPath `METHOD[|METHOD2|...] PATH[;PATH2;/base/a,b:res/...;...]`
+ * @param methodsList the methods `*` expands to and that are accepted.
+ *   Defaults to the built-in request methods.
  * @returns array of given methods and all possible sets of paths.
  */
 export function splitMethodPath(
-  methodPath: string
-): [Array<RequestMethod>, Array<PathParts>] {
+  methodPath: string,
+  methodsList: Array<RouterMethod> = REQUEST_METHODS_LIST
+): [Array<RouterMethod>, Array<PathParts>] {
+  const methodsSet: Set<RouterMethod> =
+    methodsList === REQUEST_METHODS_LIST
+      ? REQUEST_METHODS_SET
+      : new Set(methodsList);
   const spaceIdx = methodPath.indexOf(" ");
   if (spaceIdx === -1) {
     throw new RouterError(`invalid (method path) ${methodPath}`);
   }
   const methodsStr = methodPath.substring(0, spaceIdx).trim();
   const pathStr = methodPath.substring(spaceIdx);
-  const methods = (
-    methodsStr === "*" ? REQUEST_METHODS_LIST : methodsStr.split("|")
-  )
-    .filter(Boolean)
-    .map((m) => m.toUpperCase()) as Array<RequestMethod>;
-  for (const method of methods) {
-    if (!REQUEST_METHODS_SET.has(method)) {
-      throw new RouterError(`invalid method ${method}`);
+  const methods: Array<RouterMethod> = [];
+  for (const method of methodsStr === "*"
+    ? methodsList
+    : methodsStr.split("|").filter(Boolean)) {
+    const method_ = method.toUpperCase();
+    if (!isRouterMethod(methodsSet, method_)) {
+      throw new RouterError(`invalid method ${method_}`);
     }
+    methods.push(method_);
   }
   const paths = splitPath(pathStr);
   // validate
@@ -39,7 +59,7 @@ export function splitMethodPath(
     throw new RouterError(`method required ${methodPath}`);
   }
   for (const method of methods) {
-    if (!REQUEST_METHODS_SET.has(method)) {
+    if (!methodsSet.has(method)) {
       throw new RouterError(`invalid method \`${method}\``);
     }
   }
@@ -66,22 +86,57 @@ export function splitPathRecursive(paths_: Array<string>) {
     for (let i = 0; i < parts.length; i++) {
       let part = parts[i];
       const distPathsLen = distPaths.length;
+      if (isSegmentPattern(part)) {
+        const pattern = parseSegmentPattern(part);
+        if (pattern.params.some(({ name }) => !name)) {
+          throw new RouterError(`param name required ${path}`);
+        }
+        for (const distPath of distPaths) distPath.push([part, undefined]);
+        continue;
+      }
       let paramId = undefined;
-      if (part.includes(":")) {
-        [part, paramId] = part.split(":", 2).map((p) => p.trim());
+      let constraint = undefined;
+      const colonIdx = part.indexOf(":");
+      if (colonIdx !== -1) {
+        [part, paramId] = [
+          part.substring(0, colonIdx).trim(),
+          part.substring(colonIdx + 1).trim(),
+        ];
+        const constraintIdx = paramId.indexOf("<");
+        if (constraintIdx !== -1) {
+          if (!paramId.endsWith(">")) {
+            throw new RouterError(`invalid param constraint ${path}`);
+          }
+          constraint = paramId.substring(constraintIdx + 1, paramId.length - 1);
+          paramId = paramId.substring(0, constraintIdx);
+          if (!constraint) {
+            throw new RouterError(`empty param constraint ${path}`);
+          }
+        }
       }
       if (part) {
         const subParts = part.split("|");
         for (let k = 0; k < distPathsLen; k++) {
           for (let j = 1; j < subParts.length; j++) {
             const subPart = subParts[j];
-            distPaths.push([...distPaths[k], [subPart, paramId]]);
+            distPaths.push([...distPaths[k], [subPart, paramId, constraint]]);
+          }
+          if (subParts[0] != null) {
+            distPaths[k].push([subParts[0], paramId, constraint]);
           }
-          if (subParts[0] != null) distPaths[k].push([subParts[0], paramId]);
         }
       } else {
         part = "*";
-        for (const distPath of distPaths) distPath.push([part, paramId]);
+        for (const distPath of distPaths) {
+          distPath.push([part, paramId, constraint]);
+        }
+      }
+    }
+    // the trailing slash of paths ending with a literal or param segment
+    if (path.endsWith("/")) {
+      for (const distPath of distPaths) {
+        const last = distPath[distPath.length - 1];
+        if (last?.[0] && last[0] !== "**") distPath.push(["/", undefined]);
       }
     }
     for (const distPath of distPaths) {
@@ -91,6 +146,80 @@ export function splitPathRecursive(paths_: Array<string>) {
   return paths;
 }
 
+/**
+ * @param pathParts a single path as returned by `splitPath`
+ * @returns the path, eg. `/users/:id<int>` for `[["users"], ["*", "id", "int"]]`
+ */
+export function joinPathParts(pathParts: PathParts): string {
+  return (
+    "/" +
+    pathParts
+      .map(([part, paramId, constraint]) =>
+        part === "/"
+          ? ""
+          : paramId == null || !part
+          ? part
+          : (part === "*" ? "" : part) +
+            ":" +
+            paramId +
+            (constraint != null ? `<${constraint}>` : "")
+      )
+      .join("/")
+  );
+}
+
+/**
+ * @param pathParts a single path as returned by `splitPath`
+ * @returns the trie node ids along the path, ignoring param names
+ */
+export function pathPartsIds(pathParts: PathParts): Array<string> {
+  if (pathParts.length === 1 && !pathParts[0][0]) return [];
+  return pathParts.map(([part, , constraint], i) =>
+    constraint != null
+      ? `*<${constraint}>`
+      : isSegmentPattern(part)
+      ? parseSegmentPattern(part).id
+      : part || (i < pathParts.length - 1 ? "*" : "")
+  );
+}
+
+/** a request path split into its segments */
+export interface RequestPath {
+  /** the segments, without empty ones */
+  parts: Array<string>;
+  trailingSlash: boolean;
+  duplicateSlashes: boolean;
+  /** whether a segment is not valid percent-encoding */
+  malformed: boolean;
+}
+
+/**
+ * @param pathname a request path like `/a//b/`
+ * @returns the path segments and the slashes dropped from them
+ */
+export function splitRequestPath(pathname: string): RequestPath {
+  const segments = pathname.split("/").slice(1);
+  return {
+    parts: segments.filter(Boolean),
+    trailingSlash: segments.length > 1 && segments[segments.length - 1] === "",
+    duplicateSlashes: segments.slice(0, -1).includes(""),
+    malformed: segments.some((segment) => decodePathPart(segment) == null),
+  };
+}
+
+/**
+ * @param part a request path segment
+ * @returns the decoded segment, or `undefined` if it is not valid
+ *  percent-encoding
+ */
+export function decodePathPart(part: string): string | undefined {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    return undefined;
+  }
+}
+
 export function joinPath(basePath: string, methodPath: string) {
   const spaceIdx = methodPath.indexOf(" ");
   if (spaceIdx === -1) {
@@ -98,11 +227,21 @@ export function joinPath(basePath: string, methodPath: string) {
   }
   const methodsStr = methodPath.substring(0, spaceIdx).trim();
   const pathStr = methodPath.substring(spaceIdx);
+  const newMethodPath = `${methodsStr} ${joinBasePath(basePath, pathStr)}`;
+  return newMethodPath;
+}
+
+/**
+ * @param basePath base paths like `/api,/v1`
+ * @param path paths to append to every base path like `/users`
+ * @returns the joined paths like `/api/users,/v1/users`
+ */
+export function joinBasePath(basePath: string, path: string): string {
   const basePaths = basePath
     .split(",")
     .map((p) => p.trim())
     .filter(Boolean) as Array<string>;
-  const paths = pathStr
+  const paths = path
     .split(",")
     .map((p) => p.trim())
     .filter(Boolean) as Array<string>;
@@ -110,11 +249,11 @@ export function joinPath(basePath: string, methodPath: string) {
   for (const basepath of basePaths) {
     const bp = trimEnd(basepath, "/");
     for (const path of paths) {
-      newPaths.push(bp + path);
+      // `/` at a base path is the base path, not its trailing slash
+      newPaths.push(path === "/" && bp ? bp : bp + path);
     }
   }
-  const newMethodPath = `${methodsStr} ${newPaths.join(",")}`;
-  return newMethodPath;
+  return newPaths.join(",");
 }
 
 export function trimEnd(text: string, char: string) {
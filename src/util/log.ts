@@ -3,10 +3,11 @@
  *
  * Request logging utilities for HTTP requests and responses.
  *
- * Provides customizable logging functions for request lifecycle events.
+ * Provides customizable logging functions for request lifecycle events and a
+ *  route table formatter for startup logs.
  */
 
-import type { RequestLoggerFn } from "../index.ts";
+import type { RequestLoggerFn, RouteInfo } from "../index.ts";
 import { methodColor, statusColor } from "./index.ts";
 
 /**
@@ -35,3 +36,55 @@ export function requestLogger(
     );
   } as RequestLoggerFn;
 }
+
+type RouteTreeNode = {
+  children: Map<string, RouteTreeNode>;
+  routes: Array<RouteInfo>;
+};
+
+/**
+ * Formats routes as a tree of path segments listing the routes on each path.
+ *
+ * ```
+ *   console.log(formatRouteTree(router.listRoutes()));
+ * ```
+ *
+ * @param routes routes as listed by `Router.listRoutes`
+ * @returns the multi-line tree
+ */
+export function formatRouteTree(routes: Array<RouteInfo>): string {
+  const root: RouteTreeNode = { children: new Map(), routes: [] };
+  for (const route of routes) {
+    let node = root;
+    for (const segment of route.path.split("/").filter(Boolean)) {
+      let child = node.children.get(segment);
+      if (child == null) {
+        child = { children: new Map(), routes: [] };
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+    node.routes.push(route);
+  }
+  const describe = (node: RouteTreeNode) =>
+    node.routes.length === 0
+      ? ""
+      : "  " +
+        node.routes
+          .map(
+            (route) =>
+              `${route.method} ${route.type}(${route.handlerNames.join(", ")})`
+          )
+          .join(", ");
+  const lines = ["/" + describe(root)];
+  const walk = (node: RouteTreeNode, indent: string) => {
+    const children = [...node.children];
+    children.forEach(([segment, child], i) => {
+      const last = i === children.length - 1;
+      lines.push(indent + (last ? "└─ " : "├─ ") + segment + describe(child));
+      walk(child, indent + (last ? "   " : "│  "));
+    });
+  };
+  walk(root, "");
+  return lines.join("\n");
+}
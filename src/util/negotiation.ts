@@ -0,0 +1,250 @@
+/**
+ * File: src/util/negotiation.ts
+ *
+ * Content negotiation and header conditions for routes registered with match conditions.
+ *
+ * Used by the router to select between routes set on the same method and path.
+ */
+
+import { CATEGORIZED_CONTENT_TYPES } from "../defs.ts";
+import type {
+  ContentTypeCategories,
+  MatchContentTypes,
+  RouteConditions,
+} from "../types.ts";
+
+/** compiled `RouteConditions` */
+export interface RouteMatcher {
+  accept?: Set<string>;
+  contentTypes?: Set<string>;
+  headers?: Array<[string, (value: string | null) => boolean]>;
+  versions?: Set<string>;
+}
+
+/**
+ * Why no route matched, the condition failed by the route that matched the
+ *  request the furthest.
+ */
+export type RouteMatchFailure = "content-type" | "headers" | "accept";
+
+/**
+ * @param contentTypes media types and categories like `text`
+ * @returns the media types with categories expanded
+ */
+export function expandContentTypes(
+  contentTypes: MatchContentTypes | Array<MatchContentTypes>
+): Set<string> {
+  const contentTypesSet: Set<string> = new Set();
+  for (const contentType of Array.isArray(contentTypes)
+    ? contentTypes
+    : [contentTypes]) {
+    const catContentTypes =
+      CATEGORIZED_CONTENT_TYPES[contentType as ContentTypeCategories];
+    if (catContentTypes) {
+      for (const catContentType of catContentTypes.keys()) {
+        contentTypesSet.add(catContentType);
+      }
+    } else {
+      contentTypesSet.add(contentType);
+    }
+  }
+  return contentTypesSet;
+}
+
+/**
+ * @param conditions route conditions
+ * @returns the compiled conditions or undefined if there are none
+ */
+export function compileRouteConditions(
+  conditions: RouteConditions
+): RouteMatcher | undefined {
+  const { accept, contentType, headers, version } = conditions;
+  if (
+    accept == null &&
+    contentType == null &&
+    headers == null &&
+    version == null
+  ) {
+    return undefined;
+  }
+  return {
+    accept: accept != null ? expandContentTypes(accept) : undefined,
+    contentTypes:
+      contentType != null ? expandContentTypes(contentType) : undefined,
+    headers:
+      headers != null
+        ? Object.entries(headers).map(([name, expected]) => [
+            name,
+            typeof expected === "function"
+              ? expected
+              : expected instanceof RegExp
+              ? (value) => value != null && expected.test(value)
+              : (value) => value === expected,
+          ])
+        : undefined,
+    versions:
+      version != null
+        ? new Set(Array.isArray(version) ? version : [version])
+        : undefined,
+  };
+}
+
+/**
+ * @param header the `Accept` header
+ * @returns the media ranges with their quality, `*\/*` if there is no header
+ */
+export function parseAccept(header: string | null): Array<[string, number]> {
+  if (!header) return [["*/*", 1]];
+  const ranges: Array<[string, number]> = [];
+  for (const range of header.split(",")) {
+    const [type, ...params] = range.split(";").map((p) => p.trim());
+    if (!type) continue;
+    let quality = 1;
+    for (const param of params) {
+      const [key, value] = param.split("=", 2).map((p) => p.trim());
+      if (key === "q") quality = Number.parseFloat(value) || 0;
+    }
+    ranges.push([type.toLowerCase(), quality]);
+  }
+  return ranges;
+}
+
+/**
+ * The quality of each media type is the one of the most specific range
+ *  matching it, so `application/json;q=0` refuses JSON even if a wildcard
+ *  range accepts anything.
+ *
+ * @param ranges media ranges as returned by `parseAccept`
+ * @param contentTypes media types the route responds with
+ * @returns the highest quality of the media types, 0 if none is acceptable
+ */
+export function acceptQuality(
+  ranges: Array<[string, number]>,
+  contentTypes: Set<string>
+): number {
+  let best = 0;
+  for (const type of contentTypes) {
+    const typeRange = type.substring(0, type.indexOf("/")) + "/*";
+    let specificity = 0;
+    let quality = 0;
+    for (const [range, rangeQuality] of ranges) {
+      const rangeSpecificity =
+        range === type ? 3 : range === typeRange ? 2 : range === "*/*" ? 1 : 0;
+      if (rangeSpecificity > specificity) {
+        specificity = rangeSpecificity;
+        quality = rangeQuality;
+      }
+    }
+    if (quality > best) best = quality;
+  }
+  return best;
+}
+
+/**
+ * Select the route to handle the request. Routes are checked in order and
+ *  of the routes matching every other condition the most acceptable one is
+ *  selected.
+ *
+ * @param routes routes with their compiled conditions
+ * @param request the request
+ * @param contentType the media type of the request content
+ * @param version the API version of the request
+ * @returns the selected route or why none matched
+ */
+export function selectRoute<Route extends { matcher?: RouteMatcher }>(
+  routes: Array<Route>,
+  request: Request,
+  contentType: string | undefined,
+  version: string | undefined
+): Route | RouteMatchFailure {
+  let failure: RouteMatchFailure = "content-type";
+  let ranges: Array<[string, number]> | undefined = undefined;
+  let selected: Route | undefined = undefined;
+  let selectedQuality = 0;
+  for (const route of routes) {
+    const matcher = route.matcher;
+    if (matcher == null) return route;
+    if (
+      matcher.contentTypes != null &&
+      (contentType == null || !matcher.contentTypes.has(contentType))
+    ) {
+      continue;
+    }
+    if (
+      matcher.headers?.some(
+        ([name, match]) => !match(request.headers.get(name))
+      ) ||
+      (matcher.versions != null &&
+        (version == null || !matcher.versions.has(version)))
+    ) {
+      if (failure === "content-type") failure = "headers";
+      continue;
+    }
+    let quality = 1;
+    if (matcher.accept != null) {
+      ranges ??= parseAccept(request.headers.get("accept"));
+      quality = acceptQuality(ranges, matcher.accept);
+    }
+    if (quality <= 0) {
+      failure = "accept";
+      continue;
+    }
+    if (quality > selectedQuality) {
+      selected = route;
+      selectedQuality = quality;
+    }
+  }
+  return selected ?? failure;
+}
+
+/**
+ * The request headers the selection among `routes` depends on, to list in
+ *  the `Vary` header of the response.
+ *
+ * @param routes routes with their compiled conditions
+ * @param versionHeaders the headers the API version is resolved from
+ * @returns the header names
+ */
+export function varyHeaders(
+  routes: Array<{ matcher?: RouteMatcher }>,
+  versionHeaders: Array<string>
+): Array<string> {
+  const headers: Set<string> = new Set();
+  for (const { matcher } of routes) {
+    if (matcher == null) continue;
+    if (matcher.accept != null) headers.add("Accept");
+    if (matcher.contentTypes != null) headers.add("Content-Type");
+    for (const [name] of matcher.headers ?? []) headers.add(name);
+    if (matcher.versions != null) {
+      for (const name of versionHeaders) headers.add(name);
+    }
+  }
+  return [...headers];
+}
+
+/**
+ * Add request headers to the `Vary` header of a response.
+ *
+ * @param response the final response
+ * @param headers the header names as returned by `varyHeaders`
+ * @returns the response with the headers, or itself if it varies on them
+ */
+export function withVary(
+  response: Response,
+  headers: Array<string>
+): Response {
+  const vary = response.headers.get("Vary");
+  const listed = new Set(
+    vary?.split(",").map((name) => name.trim().toLowerCase())
+  );
+  const added = headers.filter((name) => !listed.has(name.toLowerCase()));
+  if (added.length === 0 || listed.has("*")) return response;
+  // the headers of responses like `Response.redirect` are immutable
+  const responseHeaders = new Headers(response.headers);
+  for (const name of added) responseHeaders.append("Vary", name);
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: responseHeaders,
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * File: src/util/param.ts
+ *
+ * Route parameter constraints for typed path parameters like `:id<int>`.
+ *
+ * Used by the path trie to match constrained segments and by the router to coerce parameter values.
+ */
+
+import { RouterError } from "../error.ts";
+import type { ParamValue } from "../types.ts";
+
+export interface ParamConstraint {
+  name: string;
+  pattern: RegExp;
+  coerce?: (value: string) => ParamValue;
+}
+
+export const PARAM_CONSTRAINTS: Map<string, ParamConstraint> = new Map([
+  [
+    "int",
+    {
+      name: "int",
+      pattern: /^-?\d{1,15}$/,
+      coerce: (value: string) => Number.parseInt(value, 10),
+    },
+  ],
+  [
+    "uint",
+    {
+      name: "uint",
+      pattern: /^\d{1,15}$/,
+      coerce: (value: string) => Number.parseInt(value, 10),
+    },
+  ],
+  [
+    "float",
+    {
+      name: "float",
+      pattern: /^-?\d+(?:\.\d+)?$/,
+      coerce: (value: string) => Number.parseFloat(value),
+    },
+  ],
+  [
+    "bool",
+    {
+      name: "bool",
+      pattern: /^(?:true|false)$/,
+      coerce: (value: string) => value === "true",
+    },
+  ],
+  ["alpha", { name: "alpha", pattern: /^[a-zA-Z]+$/ }],
+  ["alnum", { name: "alnum", pattern: /^[a-zA-Z0-9]+$/ }],
+  ["hex", { name: "hex", pattern: /^[a-fA-F0-9]+$/ }],
+  ["slug", { name: "slug", pattern: /^[a-z0-9]+(?:-[a-z0-9]+)*$/ }],
+  ["date", { name: "date", pattern: /^\d{4}-\d{2}-\d{2}$/ }],
+  [
+    "uuid",
+    {
+      name: "uuid",
+      pattern:
+        /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+    },
+  ],
+]);
+
+const regexConstraints: Map<string, ParamConstraint> = new Map();
+
+/**
+ * Register a named parameter constraint usable in route paths as `:param<name>`.
+ *
+ * @param name constraint name
+ * @param pattern the pattern a (decoded) path segment must fully match
+ * @param coerce optional conversion of the matched segment
+ */
+export function defineParamConstraint(
+  name: string,
+  pattern: RegExp,
+  coerce?: (value: string) => ParamValue
+): ParamConstraint {
+  if (!/^\w+$/.test(name)) {
+    throw new RouterError(`invalid param constraint name \`${name}\``);
+  }
+  const constraint = { name, pattern, coerce };
+  PARAM_CONSTRAINTS.set(name, constraint);
+  return constraint;
+}
+
+/**
+ * Resolve the constraint in `:param<source>`. The source is either the name
+ *  of a registered constraint or a regular expression that must match the
+ *  whole segment.
+ *
+ * @param source constraint name or regular expression source
+ * @returns the resolved constraint
+ */
+export function paramConstraint(source: string): ParamConstraint {
+  const named = PARAM_CONSTRAINTS.get(source);
+  if (named != null) return named;
+  let constraint = regexConstraints.get(source);
+  if (constraint == null) {
+    try {
+      constraint = { name: source, pattern: new RegExp(`^(?:${source})$`) };
+    } catch (err) {
+      throw new RouterError(`invalid param constraint <${source}>`, {
+        cause: err,
+      });
+    }
+    regexConstraints.set(source, constraint);
+  }
+  return constraint;
+}
+
+export function matchParam(
+  constraint: ParamConstraint,
+  value: string
+): boolean {
+  return constraint.pattern.test(value);
+}
+
+export function coerceParam(
+  constraint: ParamConstraint,
+  value: string
+): ParamValue {
+  return constraint.coerce ? constraint.coerce(value) : value;
+}
@@ -7,15 +7,88 @@
  */
 
 import { RouterError } from "../error.ts";
-import type { Handler, RouteTypes } from "../types.ts";
+import type {
+  Handler,
+  Middleware,
+  ParamsRecord,
+  RouteMeta,
+  RouterMethod,
+  RouteTypes,
+} from "../types.ts";
 import type { PathParts } from "../types.ts";
+import { decodePathPart } from "./index.ts";
+import type { RouteMatcher } from "./negotiation.ts";
+import {
+  formatSegmentPattern,
+  isSegmentPattern,
+  matchSegmentPattern,
+  parseSegmentPattern,
+  type SegmentPattern,
+} from "./segment-pattern.ts";
+import {
+  matchParam,
+  type ParamConstraint,
+  paramConstraint,
+} from "./param.ts";
+
+export type PathTrieParams = Map<
+  string,
+  {
+    value: string;
+    index: number;
+    constraint?: ParamConstraint;
+    /** the pattern of the segment and the index of the param in it */
+    pattern?: SegmentPattern;
+    group?: number;
+  }
+>;
 
-export interface PathTrieNodeAttribs<UserData extends Record<string, unknown>> {
-  parent?: PathTrieNode<UserData>;
+export interface PathTrieNodeAttribs<
+  UserData extends Record<string, unknown>,
+  RouteHandler = Handler<UserData, ParamsRecord>
+> {
+  parent?: PathTrieNode<UserData, RouteHandler>;
   path?: string;
   id?: string;
-  handlers?: Array<Handler<UserData>>;
-  params?: Map<string, { value: string; index: number }>;
+  handlers?: Array<RouteHandler>;
+  params?: PathTrieParams;
+  constraint?: ParamConstraint;
+  segmentPattern?: SegmentPattern;
+}
+
+/** handlers set on a node with match conditions */
+export interface PathTrieVariant<UserData extends Record<string, unknown>> {
+  matcher: RouteMatcher;
+  handlers: Array<Handler<UserData, ParamsRecord>>;
+  /** the metadata of the route, instead of the one of the node */
+  meta?: RouteMeta;
+}
+
+/** the route types a `Router.group` can share */
+export type GroupRouteTypes = "filter" | "hook" | "fallback" | "catcher";
+
+/** handlers shared by the routes of a `Router.group` */
+export interface PathTrieGroup<UserData extends Record<string, unknown>>
+  extends Record<GroupRouteTypes, Array<Handler<UserData, ParamsRecord>>> {
+  parent?: PathTrieGroup<UserData>;
+}
+
+/** lookup options of a path trie */
+export interface PathTrieOptions {
+  /** match literal segments case-insensitively */
+  caseInsensitive?: boolean;
+  /** match routes only on paths with the trailing slash they are set on */
+  strictSlash?: boolean;
+}
+
+/** a request path prepared for lookups */
+export interface PathLookup {
+  /** the decoded path segments */
+  parts: Array<string>;
+  /** the keys of the literal children matching the segments */
+  keys: Array<string>;
+  trailingSlash: boolean;
+  strictSlash: boolean;
 }
 
 export type RouteType<UserData extends Record<string, unknown>> = Record<
@@ -23,116 +96,187 @@ export type RouteType<UserData extends Record<string, unknown>> = Record<
   PathTrieNodeAttribs<UserData>
 >;
 
-export class PathTrieNode<UserData extends Record<string, unknown>>
-  implements PathTrieNodeAttribs<UserData>
+/** the handlers of a route type, middleware being called with `next` */
+export type RouteTypeHandler<
+  UserData extends Record<string, unknown>,
+  Type extends RouteTypes
+> = Type extends "middleware"
+  ? Middleware<UserData, ParamsRecord>
+  : Handler<UserData, ParamsRecord>;
+
+/** the route tries of a router by route type and method */
+export type RouteTries<UserData extends Record<string, unknown>> = {
+  [Type in RouteTypes]: Record<
+    RouterMethod,
+    PathTrie<UserData, RouteTypeHandler<UserData, Type>>
+  >;
+};
+
+/** the handler sets of a router by route type, with their method paths */
+export type RouteSets<UserData extends Record<string, unknown>> = {
+  [Type in RouteTypes]: Array<
+    [string, Array<RouteTypeHandler<UserData, Type>>]
+  >;
+};
+
+/**
+ * A node of a path trie, `RouteHandler` being the type of the handlers of
+ *  its route type.
+ */
+export class PathTrieNode<
+  UserData extends Record<string, unknown>,
+  RouteHandler = Handler<UserData, ParamsRecord>
+> implements PathTrieNodeAttribs<UserData, RouteHandler>
 {
-  children: Map<string, PathTrieNode<UserData>> = new Map();
+  children: Map<string, PathTrieNode<UserData, RouteHandler>> = new Map();
+  /** children keyed `*<constraint>` in insertion order */
+  constrained: Array<PathTrieNode<UserData, RouteHandler>> = [];
+  /** children with segment patterns in insertion order */
+  patterns: Array<PathTrieNode<UserData, RouteHandler>> = [];
+  /** handlers with match conditions, `handlers` being the default */
+  variants?: Array<PathTrieVariant<UserData>>;
+  /** the group the handlers were set in */
+  group?: PathTrieGroup<UserData>;
+  /** the metadata of the route */
+  meta?: RouteMeta;
   constructor(
-    public parent?: PathTrieNode<UserData>,
+    public parent?: PathTrieNode<UserData, RouteHandler>,
     public path?: string,
     public id?: string,
-    public handlers?: Array<Handler<UserData>>,
-    public params?: Map<string, { value: string; index: number }>
+    public handlers?: Array<RouteHandler>,
+    public params?: PathTrieParams,
+    public constraint?: ParamConstraint,
+    public segmentPattern?: SegmentPattern
   ) {}
+
+  /**
+   * The ids of the nodes from the root to this node, excluding the root.
+   */
+  ids(): Array<string> {
+    const ids: Array<string> = this.parent != null ? [this.id ?? ""] : [];
+    for (let node = this.parent; node?.parent != null; node = node.parent) {
+      ids.unshift(node.id ?? "");
+    }
+    return ids;
+  }
+
+  /**
+   * The path this node was set on with param names and constraints,
+   *  eg. `/users/:id<int>/posts`.
+   */
+  pattern(): string {
+    const ids = this.ids();
+    const names: Map<number, string> = new Map();
+    const patternNames: Map<number, Array<string>> = new Map();
+    for (const [name, param] of this.params ?? []) {
+      if (param.pattern != null) {
+        const groupNames = patternNames.get(param.index) ?? [];
+        groupNames[param.group!] = name;
+        patternNames.set(param.index, groupNames);
+      } else {
+        names.set(param.index, name);
+      }
+    }
+    return (
+      "/" +
+      ids
+        .map((id, i) => {
+          if (patternNames.has(i) || isSegmentPattern(id)) {
+            return formatSegmentPattern(
+              parseSegmentPattern(id),
+              patternNames.get(i)
+            );
+          }
+          // the trailing slash the route is set on
+          if (id === "/") return "";
+          const name = names.get(i);
+          if (name == null) return id;
+          if (id === "*") return ":" + name;
+          if (id.startsWith("*<")) return ":" + name + id.substring(1);
+          return id + ":" + name;
+        })
+        .join("/")
+    );
+  }
 }
 
-export class PathTrie<UserData extends Record<string, unknown>> {
-  #root: PathTrieNode<UserData>;
+export class PathTrie<
+  UserData extends Record<string, unknown>,
+  RouteHandler = Handler<UserData, ParamsRecord>
+> {
+  #root: PathTrieNode<UserData, RouteHandler>;
+  #options?: PathTrieOptions;
 
-  get root(): PathTrieNode<UserData> {
+  get root(): PathTrieNode<UserData, RouteHandler> {
     return this.#root;
   }
 
-  constructor() {
-    this.#root = new PathTrieNode<UserData>(undefined, "/");
+  /**
+   * Routes set on paths with a trailing slash, like `/users/`, are kept in
+   *  a `/` child of the node of the path without it. Literal segments are
+   *  kept lower cased in case insensitive tries.
+   */
+  constructor(options?: PathTrieOptions) {
+    this.#root = new PathTrieNode<UserData, RouteHandler>(undefined, "/");
+    this.#options = options;
+  }
+
+  /**
+   * Iterate the nodes that have handlers, depth first in insertion order.
+   */
+  *nodes(): Generator<PathTrieNode<UserData, RouteHandler>> {
+    const stack: Array<PathTrieNode<UserData, RouteHandler>> = [this.#root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node.handlers != null) yield node;
+      stack.push(...[...node.children.values()].reverse());
+    }
   }
 
   has(pathParts: Array<string>): boolean {
     return this.get(pathParts) != null;
   }
 
-  getAll(pathParts: Array<string>): Array<PathTrieNode<UserData>> {
-    const nodes: Array<PathTrieNode<UserData>> = [];
-    let node: PathTrieNode<UserData> | undefined = this.#root;
-    if (pathParts.length === 0) {
-      if (node.handlers != null) nodes.push(node);
-    } else {
-      const lastI = pathParts.length - 1;
-      for (let i = 0; node != null && i < pathParts.length; i++) {
-        const part = decodeURIComponent(pathParts[i]);
-        const child: PathTrieNode<UserData> | undefined =
-          node.children.get(part);
-        const glob = node.children.get("*");
-        const greedyGlob = node.children.get("**");
-        if (i === lastI) {
-          if (child?.handlers != null) nodes.push(child);
-          if (glob?.handlers != null) nodes.push(glob);
-          node = child;
-        } else {
-          if (child == null) node = glob;
-          else node = child;
-        }
-        if (greedyGlob?.handlers != null) nodes.push(greedyGlob);
-      }
-    }
+  /**
+   * Get every node with handlers matching the path, from the least to the
+   *  most specific: the `**` of a node before the nodes below it, and
+   *  literals before constrained params, segment patterns and `*`.
+   *
+   * @param pathParts the path segments, not yet decoded
+   * @param trailingSlash whether the path ends with a slash
+   */
+  getAll(
+    pathParts: Array<string>,
+    trailingSlash = false
+  ): Array<PathTrieNode<UserData, RouteHandler>> {
+    const nodes: Array<PathTrieNode<UserData, RouteHandler>> = [];
+    const lookup = pathLookup(pathParts, trailingSlash, this.#options);
+    collectNodes(this.#root, lookup, 0, nodes);
     return nodes;
   }
 
-  get(pathParts: Array<string>): PathTrieNode<UserData> | undefined {
-    let node: PathTrieNode<UserData> | undefined = this.#root,
-      child = undefined;
-    let bestGreedyGlob: PathTrieNode<UserData> | undefined = undefined;
-    for (let i = 0; node != null && i < pathParts.length; i++) {
-      const part = decodeURIComponent(pathParts[i]);
-      if (bestGreedyGlob == null && node.children.has("**")) {
-        bestGreedyGlob = node.children.get("**");
-      }
-      child = node.children.get(part);
-      if (child == null) child = node.children.get("*");
-      node = child;
-    }
-    node = node != null && node.handlers != null ? node : bestGreedyGlob;
-    return node;
+  /**
+   * Get the most specific node with handlers matching the path, backtracking
+   *  from dead ends to the next candidate: literals before constrained params,
+   *  segment patterns and `*`, and the `**` of a node after the nodes below
+   *  it.
+   *
+   * @param pathParts the path segments, not yet decoded
+   * @param trailingSlash whether the path ends with a slash
+   */
+  get(
+    pathParts: Array<string>,
+    trailingSlash = false
+  ): PathTrieNode<UserData, RouteHandler> | undefined {
+    const lookup = pathLookup(pathParts, trailingSlash, this.#options);
+    return findNode(this.#root, lookup, 0);
   }
 
   set(
     pathParts: PathParts,
-    replaceFn: { (node: PathTrieNode<UserData>): void }
+    replaceFn: { (node: PathTrieNode<UserData, RouteHandler>): void }
   ) {
-    const path = "/" + pathParts.map(([p]) => p).join("/");
-    const params = new Map();
-    const parts: Array<{
-      path?: string;
-      id: string;
-      paramId?: string;
-      glob?: boolean;
-    }> = [];
-    // process the path
-    {
-      for (let i = 0; i < pathParts.length; i++) {
-        const [part, paramId] = pathParts[i];
-        const partMatch = part.match(/^(?:(?<glob>\*\*?)|(?<id>[\w\-\.%]*))$/);
-        if (!partMatch) {
-          throw new RouterError(
-            `invalid path ${path} at ${
-              "/" + pathParts.slice(0, i + 1).join("/")
-            } <--`
-          );
-        }
-        const id = partMatch.groups?.id ?? partMatch.groups?.glob ?? "";
-        if (paramId != null) params.set(paramId, { value: id, index: i });
-        const subPath =
-          "/" +
-          pathParts
-            .slice(0, i + 1)
-            .map(([p]) => p)
-            .join("/");
-        parts.push({
-          path: subPath,
-          id,
-        });
-      }
-    }
+    const { params, parts } = this.#processPath(pathParts);
     // find the insertion point and insert the node
     {
       const lastI = parts.length - 1;
@@ -151,27 +295,32 @@ export class PathTrie<UserData extends Record<string, unknown>> {
         {
           child = node.children.get(part.id);
           if (i === lastI) {
-            if (child != null && child.handlers != null) {
-              replaceFn(child);
-              break;
-            }
             if (child == null) {
               child = new PathTrieNode(
                 node,
                 part.path,
                 part.id,
                 undefined,
-                params
+                params,
+                part.constraint,
+                part.pattern
               );
-              node.children.set(part.id, child);
-              replaceFn(child);
-            } else {
-              replaceFn(child);
+              this.#addChild(node, child);
             }
+            replaceFn(child);
+            child.params = params;
           } else {
             if (child == null) {
-              child = new PathTrieNode(node, part.path, part.id);
-              node.children.set(part.id, child);
+              child = new PathTrieNode(
+                node,
+                part.path,
+                part.id,
+                undefined,
+                undefined,
+                part.constraint,
+                part.pattern
+              );
+              this.#addChild(node, child);
             }
             node = child;
           }
@@ -179,4 +328,253 @@ export class PathTrie<UserData extends Record<string, unknown>> {
       }
     }
   }
+
+  /**
+   * Remove the handlers set on exactly the path defined by `pathParts` and
+   *  prune the nodes left without handlers and children.
+   *
+   * @param pathParts
+   * @returns the node the handlers were removed from, if any
+   */
+  delete(
+    pathParts: PathParts
+  ): PathTrieNode<UserData, RouteHandler> | undefined {
+    const { parts } = this.#processPath(pathParts);
+    let node: PathTrieNode<UserData, RouteHandler> | undefined = this.#root;
+    for (let i = 0; node != null && i < parts.length; i++) {
+      const id = parts[i].id || (i === parts.length - 1 ? "" : "*");
+      if (id) node = node.children.get(id);
+    }
+    if (node?.handlers == null) return undefined;
+    node.handlers = undefined;
+    node.variants = undefined;
+    node.group = undefined;
+    node.meta = undefined;
+    node.params = undefined;
+    // prune empty nodes
+    for (
+      let child = node, parent = node.parent;
+      parent != null &&
+      child.handlers == null &&
+      child.children.size === 0;
+      child = parent, parent = parent.parent
+    ) {
+      parent.children.delete(child.id!);
+      if (child.constraint != null) {
+        parent.constrained = parent.constrained.filter((c) => c !== child);
+      }
+      if (child.segmentPattern != null) {
+        parent.patterns = parent.patterns.filter((c) => c !== child);
+      }
+    }
+    return node;
+  }
+
+  #processPath(pathParts: PathParts) {
+    const path = "/" + pathParts.map(([p]) => p).join("/");
+    const params: PathTrieParams = new Map();
+    const parts: Array<{
+      path?: string;
+      id: string;
+      paramId?: string;
+      glob?: boolean;
+      constraint?: ParamConstraint;
+      pattern?: SegmentPattern;
+    }> = [];
+    for (let i = 0; i < pathParts.length; i++) {
+      const [part, paramId, constraintSource] = pathParts[i];
+      if (isSegmentPattern(part)) {
+        const pattern = parseSegmentPattern(part);
+        pattern.params.forEach(({ name, constraint }, group) => {
+          params.set(name, {
+            value: pattern.id,
+            index: i,
+            constraint,
+            pattern,
+            group,
+          });
+        });
+        parts.push({
+          path: "/" + pathParts.slice(0, i + 1).map(([p]) => p).join("/"),
+          id: pattern.id,
+          pattern,
+        });
+        continue;
+      }
+      if (part === "/" && i === pathParts.length - 1) {
+        parts.push({ path: path.slice(0, -1), id: part });
+        continue;
+      }
+      const partMatch = part.match(/^(?:(?<glob>\*\*?)|(?<id>[\w\-\.%]*))$/);
+      if (!partMatch) {
+        throw new RouterError(
+          `invalid path ${path} at ${
+            "/" + pathParts.slice(0, i + 1).join("/")
+          } <--`
+        );
+      }
+      let id = partMatch.groups?.id ?? partMatch.groups?.glob ?? "";
+      if (this.#options?.caseInsensitive) id = id.toLowerCase();
+      let constraint: ParamConstraint | undefined = undefined;
+      if (constraintSource != null) {
+        if (id !== "*" || paramId == null) {
+          throw new RouterError(
+            `invalid path ${path} at ${
+              "/" +
+              pathParts
+                .slice(0, i + 1)
+                .map(([p]) => p)
+                .join("/")
+            } <-- constraints are only allowed on params`
+          );
+        }
+        constraint = paramConstraint(constraintSource);
+        id = `*<${constraintSource}>`;
+      }
+      if (paramId != null) {
+        params.set(paramId, { value: id, index: i, constraint });
+      }
+      const subPath =
+        "/" +
+        pathParts
+          .slice(0, i + 1)
+          .map(([p]) => p)
+          .join("/");
+      parts.push({
+        path: subPath,
+        id,
+        constraint,
+      });
+    }
+    return { params, parts };
+  }
+
+  #addChild(
+    node: PathTrieNode<UserData, RouteHandler>,
+    child: PathTrieNode<UserData, RouteHandler>
+  ) {
+    node.children.set(child.id!, child);
+    if (child.constraint != null) node.constrained.push(child);
+    if (child.segmentPattern != null) node.patterns.push(child);
+  }
+}
+
+/**
+ * Prepare the path segments for lookups.
+ *
+ * @param pathParts the path segments, not yet decoded, malformed ones
+ *  kept as they are
+ * @param trailingSlash whether the path ends with a slash
+ * @param options the lookup options of the trie
+ */
+export function pathLookup(
+  pathParts: Array<string>,
+  trailingSlash: boolean,
+  options?: PathTrieOptions
+): PathLookup {
+  const parts = pathParts.map((part) => decodePathPart(part) ?? part);
+  return {
+    parts,
+    keys: options?.caseInsensitive
+      ? parts.map((part) => part.toLowerCase())
+      : parts,
+    trailingSlash,
+    strictSlash: options?.strictSlash ?? false,
+  };
+}
+
+/**
+ * The nodes a path ending at `node` matches, the one set on the same
+ *  trailing slash as the path first.
+ */
+export function endNodes<Node extends { children: ReadonlyMap<string, Node> }>(
+  node: Node,
+  lookup: PathLookup
+): Array<Node> {
+  const slashed = node.children.get("/");
+  const nodes = lookup.trailingSlash ? [slashed, node] : [node, slashed];
+  if (lookup.strictSlash) nodes.pop();
+  return nodes.filter((node): node is Node => node != null);
+}
+
+/**
+ * The children of `node` matching the decoded path segment `part`, in the
+ *  order they are tried: the literal child, the constrained params and the
+ *  segment patterns in definition order, then `*`. `**` and trailing
+ *  slashes are excluded.
+ *
+ * @param key the key of the literal child, `part` lower cased in case
+ *  insensitive tries
+ */
+export function matchingChildren<
+  UserData extends Record<string, unknown>,
+  RouteHandler
+>(
+  node: PathTrieNode<UserData, RouteHandler>,
+  part: string,
+  key = part
+): Array<PathTrieNode<UserData, RouteHandler>> {
+  const children: Array<PathTrieNode<UserData, RouteHandler>> = [];
+  const literal = node.children.get(key);
+  const glob = node.children.get("*");
+  if (literal != null && literal !== glob && key !== "**" && key !== "/") {
+    children.push(literal);
+  }
+  for (const child of node.constrained) {
+    if (matchParam(child.constraint!, part)) children.push(child);
+  }
+  for (const child of node.patterns) {
+    if (matchSegmentPattern(child.segmentPattern!, part)) children.push(child);
+  }
+  if (glob != null) children.push(glob);
+  return children;
+}
+
+function findNode<
+  UserData extends Record<string, unknown>,
+  RouteHandler
+>(
+  node: PathTrieNode<UserData, RouteHandler>,
+  lookup: PathLookup,
+  i: number
+): PathTrieNode<UserData, RouteHandler> | undefined {
+  if (i === lookup.parts.length) {
+    return endNodes(node, lookup).find((node) => node.handlers != null);
+  }
+  for (const child of matchingChildren(
+    node,
+    lookup.parts[i],
+    lookup.keys[i]
+  )) {
+    const found = findNode(child, lookup, i + 1);
+    if (found != null) return found;
+  }
+  const greedyGlob = node.children.get("**");
+  return greedyGlob?.handlers != null ? greedyGlob : undefined;
+}
+
+function collectNodes<
+  UserData extends Record<string, unknown>,
+  RouteHandler
+>(
+  node: PathTrieNode<UserData, RouteHandler>,
+  lookup: PathLookup,
+  i: number,
+  nodes: Array<PathTrieNode<UserData, RouteHandler>>
+) {
+  if (i === lookup.parts.length) {
+    for (const end of endNodes(node, lookup).reverse()) {
+      if (end.handlers != null) nodes.push(end);
+    }
+    return;
+  }
+  const greedyGlob = node.children.get("**");
+  if (greedyGlob?.handlers != null) nodes.push(greedyGlob);
+  for (const child of matchingChildren(
+    node,
+    lookup.parts[i],
+    lookup.keys[i]
+  )) {
+    collectNodes(child, lookup, i + 1, nodes);
+  }
 }
@@ -0,0 +1,170 @@
+/**
+ * File: src/util/route-validation.ts
+ *
+ * Route table diagnostics for unreachable routes, inconsistent param names and unmatched filters and hooks.
+ *
+ * Used by the router to validate its route tries and route sets.
+ */
+
+import { ROUTE_TYPES_LIST } from "../defs.ts";
+import type { RouteIssue, RouterMethod } from "../types.ts";
+import { pathPartsIds, splitMethodPath } from "./index.ts";
+import { matchParam, paramConstraint } from "./param.ts";
+import {
+  isSegmentPattern,
+  matchSegmentPattern,
+  parseSegmentPattern,
+} from "./segment-pattern.ts";
+import type { PathTrieNode, RouteSets, RouteTries } from "./path-trie.ts";
+
+/** named constraints and the named constraints whose matches they include */
+const CONSTRAINT_SUPERSETS: Map<string, Set<string>> = new Map([
+  ["int", new Set(["uint"])],
+  ["float", new Set(["int", "uint"])],
+  ["alnum", new Set(["alpha", "hex", "uint"])],
+]);
+
+/**
+ * Validate the route tries and route sets of a router.
+ *
+ * @param routes the route tries by route type and method
+ * @param sets the route sets by route type
+ * @param methods the methods of the router
+ * @returns Array of issues, empty if there are none
+ */
+export function validateRoutes<UserData extends Record<string, unknown>>(
+  routes: RouteTries<UserData>,
+  sets: RouteSets<UserData>,
+  methods: Array<RouterMethod>
+): Array<RouteIssue> {
+  const issues: Array<RouteIssue> = [];
+  for (const type of ROUTE_TYPES_LIST) {
+    for (const method of methods) {
+      // names by node and by param in the segment pattern
+      const paramNames: Map<
+        PathTrieNode<UserData, unknown>,
+        Array<Set<string>>
+      > = new Map();
+      for (const node of routes[type][method].nodes()) {
+        const path = node.pattern();
+        const reason = unreachableReason(node);
+        if (reason != null) {
+          issues.push({
+            kind: "unreachable",
+            type,
+            method,
+            path,
+            message: `${type} ${method} ${path} is unreachable: ${reason}`,
+          });
+        }
+        const depth = node.ids().length;
+        for (const [name, param] of node.params ?? []) {
+          let paramNode: PathTrieNode<UserData, unknown> | undefined = node;
+          for (let i = depth; paramNode != null && i > param.index + 1; i--) {
+            paramNode = paramNode.parent;
+          }
+          if (paramNode == null) continue;
+          const groups = paramNames.get(paramNode) ?? [];
+          const group = param.group ?? 0;
+          groups[group] = (groups[group] ?? new Set()).add(name);
+          paramNames.set(paramNode, groups);
+        }
+      }
+      for (const [node, groups] of paramNames) {
+        const names = groups.find((names) => names?.size > 1);
+        if (names == null) continue;
+        const path = "/" + node.ids().join("/");
+        issues.push({
+          kind: "param-names",
+          type,
+          method,
+          path,
+          message: `${type} ${method} ${path} param is named ${[...names]
+            .map((name) => `\`${name}\``)
+            .join(" and ")}`,
+        });
+      }
+    }
+  }
+  // middleware, filters, hooks and after handlers that never match a handler
+  //  or fallback
+  const targets: Map<RouterMethod, Array<Array<string>>> = new Map();
+  for (const method of methods) {
+    targets.set(method, [
+      ...[...routes.handler[method].nodes()].map((node) => node.ids()),
+      ...[...routes.fallback[method].nodes()].map((node) => node.ids()),
+    ]);
+  }
+  for (const type of ["middleware", "filter", "hook", "after"] as const) {
+    for (const [methodPath] of sets[type]) {
+      const [methods_, paths] = splitMethodPath(methodPath.trim(), methods);
+      const matched = methods_.some((method) =>
+        paths.some((path) => {
+          const ids = pathPartsIds(path);
+          return targets.get(method)!.some((target) => overlap(ids, target));
+        })
+      );
+      if (!matched) {
+        const [method, path] = methodPath.trim().split(" ", 2);
+        issues.push({
+          kind: "unmatched",
+          type,
+          method,
+          path,
+          message: `${type} ${methodPath.trim()} never matches a handler or fallback`,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+function unreachableReason<UserData extends Record<string, unknown>>(
+  node: PathTrieNode<UserData, unknown>
+): string | undefined {
+  for (
+    let child = node, parent = node.parent;
+    parent != null;
+    child = parent, parent = parent.parent
+  ) {
+    if (parent.id === "**") {
+      return "segments after `**` are never matched";
+    }
+    // deeper dead ends backtrack to the next constrained sibling
+    const constraint = child.constraint;
+    if (constraint == null || child !== node) continue;
+    for (const sibling of parent.constrained) {
+      if (sibling === child) break;
+      if (sibling.handlers == null) continue;
+      const siblingName = sibling.constraint!.name;
+      if (CONSTRAINT_SUPERSETS.get(siblingName)?.has(constraint.name)) {
+        return `\`<${constraint.name}>\` is shadowed by \`<${siblingName}>\` at ${sibling.pattern()}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+function overlap(a: Array<string>, b: Array<string>): boolean {
+  // trailing slashes only matter with strict slashes
+  if (a[0] === "/") return overlap(a.slice(1), b);
+  if (b[0] === "/") return overlap(a, b.slice(1));
+  if (a[0] === "**") return b.length > 0;
+  if (b[0] === "**") return a.length > 0;
+  if (a.length === 0 || b.length === 0) return a.length === b.length;
+  return segmentsOverlap(a[0], b[0]) && overlap(a.slice(1), b.slice(1));
+}
+
+function segmentsOverlap(a: string, b: string): boolean {
+  if (a === b || a === "*" || b === "*") return true;
+  const aConstrained = a.startsWith("*<");
+  const bConstrained = b.startsWith("*<");
+  const aPattern = !aConstrained && isSegmentPattern(a);
+  const bPattern = !bConstrained && isSegmentPattern(b);
+  if ((aConstrained || aPattern) && (bConstrained || bPattern)) return true;
+  if (aConstrained) return matchParam(paramConstraint(a.slice(2, -1)), b);
+  if (bConstrained) return matchParam(paramConstraint(b.slice(2, -1)), a);
+  if (aPattern) return matchSegmentPattern(parseSegmentPattern(a), b) != null;
+  if (bPattern) return matchSegmentPattern(parseSegmentPattern(b), a) != null;
+  return false;
+}
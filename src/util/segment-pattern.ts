@@ -0,0 +1,166 @@
+/**
+ * File: src/util/segment-pattern.ts
+ *
+ * Segment patterns with literal prefixes and suffixes and embedded params like `:name.:ext`, `v:major(\d+)` or `@:user`.
+ *
+ * Used by the path trie to store and match pattern segments and by the router to extract and build their params.
+ */
+
+import { RouterError } from "../error.ts";
+import { type ParamConstraint, matchParam, paramConstraint } from "./param.ts";
+
+export interface SegmentPattern {
+  /** the pattern without param names, eg. `:.:` for `:name.:ext` */
+  id: string;
+  regex: RegExp;
+  /** literals and the indexes of the params in between */
+  tokens: Array<string | number>;
+  params: Array<{
+    name: string;
+    /** source of the constraint `<int>` or of the regular expression `(\d+)` */
+    source?: string;
+    constraint?: ParamConstraint;
+  }>;
+}
+
+const LITERAL_REGEX = /^[\w\-.%]*$/;
+const PARAM_REGEX = /^:(\w*)(?:<([^>]*)>|\(((?:[^()\\]|\\.|\((?:[^()\\]|\\.)*\))*)\))?/;
+
+const segmentPatterns: Map<string, SegmentPattern> = new Map();
+
+/**
+ * A segment is a pattern when its params have a regular expression like
+ *  `v:major(\d+)`, are followed by a literal or param like `:name.:ext`, or
+ *  follow a prefix that is no plain literal like `@:user` or have both a
+ *  prefix and a constraint like `v:major<uint>`. Segments like `about:page`
+ *  or `a|b:page` keep naming the literal, while a `|` in a regular expression
+ *  like `:x(a|b)` does not separate alternatives.
+ *
+ * @param segment a path segment of a route path
+ */
+export function isSegmentPattern(segment: string): boolean {
+  const colonIdx = segment.indexOf(":");
+  if (colonIdx === -1 || hasAlternatives(segment)) return false;
+  const prefix = segment.substring(0, colonIdx);
+  if (prefix === "*" || prefix === "**") return false;
+  if (!LITERAL_REGEX.test(prefix)) return true;
+  const match = segment.substring(colonIdx).match(PARAM_REGEX);
+  return (
+    match == null ||
+    match[3] != null ||
+    (match[2] != null && prefix !== "") ||
+    match[0].length < segment.length - colonIdx
+  );
+}
+
+/** whether `segment` has a `|` outside of parentheses, like `a|b:page` */
+function hasAlternatives(segment: string): boolean {
+  let depth = 0;
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i];
+    if (char === "\\") i++;
+    else if (char === "(") depth++;
+    else if (char === ")") depth--;
+    else if (char === "|" && depth === 0) return true;
+  }
+  return false;
+}
+
+/**
+ * @param segment a segment pattern, param names may be empty as in ids
+ * @returns the parsed pattern, cached by segment
+ */
+export function parseSegmentPattern(segment: string): SegmentPattern {
+  let pattern = segmentPatterns.get(segment);
+  if (pattern != null) return pattern;
+  const tokens: SegmentPattern["tokens"] = [];
+  const params: SegmentPattern["params"] = [];
+  let id = "";
+  let regexSource = "";
+  for (let rest = segment; rest; ) {
+    const colonIdx = rest.indexOf(":");
+    if (colonIdx !== 0) {
+      const literal = colonIdx === -1 ? rest : rest.substring(0, colonIdx);
+      if (/[/:]/.test(literal)) {
+        throw new RouterError(`invalid segment pattern ${segment}`);
+      }
+      tokens.push(literal);
+      id += literal;
+      regexSource += literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      rest = rest.substring(literal.length);
+      continue;
+    }
+    const match = rest.match(PARAM_REGEX)!;
+    const [, name, constraintSource, regex] = match;
+    if (typeof tokens[tokens.length - 1] === "number") {
+      throw new RouterError(
+        `params must be separated by a literal in segment pattern ${segment}`
+      );
+    }
+    let constraint: ParamConstraint | undefined = undefined;
+    let source: string | undefined = undefined;
+    let paramRegex = ".+?";
+    if (constraintSource != null) {
+      constraint = paramConstraint(constraintSource);
+      source = `<${constraintSource}>`;
+      paramRegex = constraint.pattern.source.replace(/^\^|\$$/g, "");
+    } else if (regex != null) {
+      source = `(${regex})`;
+      paramRegex = regex;
+    }
+    tokens.push(params.length);
+    id += ":" + (source ?? "");
+    regexSource += `(?<p${params.length}>${paramRegex})`;
+    params.push({ name, source, constraint });
+    rest = rest.substring(match[0].length);
+  }
+  try {
+    pattern = { id, regex: new RegExp(`^${regexSource}$`), tokens, params };
+  } catch (err) {
+    throw new RouterError(`invalid segment pattern ${segment}`, {
+      cause: err,
+    });
+  }
+  segmentPatterns.set(segment, pattern);
+  return pattern;
+}
+
+/**
+ * @param pattern parsed segment pattern
+ * @param segment decoded path segment
+ * @returns the param values in order or undefined if the segment does not
+ *  match
+ */
+export function matchSegmentPattern(
+  pattern: SegmentPattern,
+  segment: string
+): Array<string> | undefined {
+  const groups = pattern.regex.exec(segment)?.groups;
+  if (groups == null) return undefined;
+  const values: Array<string> = [];
+  for (let i = 0; i < pattern.params.length; i++) {
+    const constraint = pattern.params[i].constraint;
+    const value = groups[`p${i}`];
+    if (constraint != null && !matchParam(constraint, value)) return undefined;
+    values.push(value);
+  }
+  return values;
+}
+
+/**
+ * @param pattern parsed segment pattern
+ * @param names param names, defaults to the names of the pattern
+ * @returns the segment pattern, eg. `:name.:ext`
+ */
+export function formatSegmentPattern(
+  pattern: SegmentPattern,
+  names?: Array<string | undefined>
+): string {
+  return pattern.tokens
+    .map((token) => {
+      if (typeof token === "string") return token;
+      const param = pattern.params[token];
+      return ":" + (names?.[token] ?? param.name) + (param.source ?? "");
+    })
+    .join("");
+}
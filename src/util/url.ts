@@ -0,0 +1,146 @@
+/**
+ * File: src/util/url.ts
+ *
+ * Url building from route paths for named routes.
+ *
+ * Used by the router to resolve `Router.url` and by processed requests to redirect to named routes.
+ */
+
+import { RouterError } from "../error.ts";
+import type { ParamsRecord, PathParts, UrlQuery } from "../types.ts";
+import { matchParam, paramConstraint } from "./param.ts";
+import {
+  isSegmentPattern,
+  matchSegmentPattern,
+  parseSegmentPattern,
+} from "./segment-pattern.ts";
+
+/**
+ * Build a url from the first of `paths` the params can fill.
+ *
+ * @param name route name, used in error messages
+ * @param paths the paths of the route as returned by `splitPath`
+ * @param params route params, percent-encoded in the url
+ * @param query query params appended as search params
+ * @returns the path and search, eg. `/users/1?tab=posts`
+ */
+export function buildUrl(
+  name: string,
+  paths: Array<PathParts>,
+  params: ParamsRecord = {},
+  query?: UrlQuery
+): string {
+  let error: RouterError | undefined;
+  for (const pathParts of paths) {
+    try {
+      return buildPath(pathParts, params) + buildSearch(query);
+    } catch (err) {
+      error ??= err as RouterError;
+    }
+  }
+  throw new RouterError(`cannot build url for route \`${name}\``, {
+    cause: error,
+  });
+}
+
+/**
+ * @param basePath the request path a router is mounted at, eg. `/api`
+ * @param url a url built by the mounted router, eg. `/users?page=2`
+ * @returns the url below the base path, eg. `/api/users?page=2`
+ */
+export function mountedUrl(basePath: string, url: string): string {
+  if (!basePath) return url;
+  return url === "/" || url.startsWith("/?")
+    ? basePath + url.substring(1)
+    : basePath + url;
+}
+
+function buildPath(pathParts: PathParts, params: ParamsRecord): string {
+  const segments: Array<string> = [];
+  for (const [part, paramId, constraintSource] of pathParts) {
+    if (part === "/") {
+      segments.push("");
+      continue;
+    }
+    if (isSegmentPattern(part)) {
+      segments.push(buildPatternSegment(part, params));
+      continue;
+    }
+    const value = paramId != null ? params[paramId] : undefined;
+    if (!part) {
+      if (value != null) {
+        throw new RouterError(`param \`${paramId}\` is not empty`);
+      }
+      continue;
+    }
+    if (part !== "*" && part !== "**") {
+      // literal segments only fill params of the same value
+      if (value != null && String(value) !== part) {
+        throw new RouterError(`param \`${paramId}\` is not \`${part}\``);
+      }
+      segments.push(encodeURIComponent(part));
+      continue;
+    }
+    if (paramId == null) {
+      throw new RouterError(`unnamed \`${part}\` cannot be filled`);
+    }
+    if (value == null || value === "") {
+      throw new RouterError(`missing param \`${paramId}\``);
+    }
+    const text = String(value);
+    if (
+      constraintSource != null &&
+      !matchParam(paramConstraint(constraintSource), text)
+    ) {
+      throw new RouterError(
+        `param \`${paramId}\` does not match <${constraintSource}>`
+      );
+    }
+    segments.push(
+      part === "**"
+        ? text.split("/").filter(Boolean).map(encodeURIComponent).join("/")
+        : encodeURIComponent(text)
+    );
+  }
+  return "/" + segments.join("/");
+}
+
+function buildPatternSegment(segment: string, params: ParamsRecord): string {
+  const pattern = parseSegmentPattern(segment);
+  const values = pattern.params.map(({ name }) => {
+    const value = params[name];
+    if (value == null || value === "") {
+      throw new RouterError(`missing param \`${name}\``);
+    }
+    return String(value);
+  });
+  const tokens = pattern.tokens.map((token) =>
+    typeof token === "string" ? token : values[token]
+  );
+  if (matchSegmentPattern(pattern, tokens.join("")) == null) {
+    throw new RouterError(`params do not match ${segment}`);
+  }
+  return pattern.tokens
+    .map((token) =>
+      typeof token === "string" ? token : encodeURIComponent(values[token])
+    )
+    .join("");
+}
+
+function buildSearch(query?: UrlQuery): string {
+  if (query == null) return "";
+  let search: URLSearchParams;
+  if (query instanceof URLSearchParams) {
+    search = query;
+  } else {
+    search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value == null) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        search.append(key, String(item));
+      }
+    }
+  }
+  const text = search.toString();
+  return text ? "?" + text : "";
+}
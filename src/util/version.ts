@@ -0,0 +1,88 @@
+/**
+ * File: src/util/version.ts
+ *
+ * API version resolution from path prefixes, headers and media type parameters, and deprecation headers.
+ *
+ * Used by the router to resolve the version routes with a `version` condition are matched on.
+ */
+
+import type { RouteVersioning } from "../types.ts";
+
+const PATH_VERSION_REGEX = /^v(\d[\w.]*)$/;
+
+/**
+ * Resolve the API version of a request, from the path prefix, the version
+ *  header or the `Accept` media type parameter, in that order, or the
+ *  default version.
+ *
+ * @param pathParts the path segments of the request
+ * @param request the request
+ * @param versioning the versioning options
+ * @param routed whether the path below a version prefix is routed for that
+ *  version, else the prefix is kept as a path segment
+ * @returns the version, if any, and the path segments without the version
+ */
+export function resolveVersion(
+  pathParts: Array<string>,
+  request: Request,
+  versioning: RouteVersioning = {},
+  routed: (version: string, pathParts: Array<string>) => boolean = () => true
+): [string | undefined, Array<string>] {
+  if (versioning.path && pathParts.length > 0) {
+    const match = pathParts[0].match(PATH_VERSION_REGEX);
+    if (match && routed(match[1], pathParts.slice(1))) {
+      return [match[1], pathParts.slice(1)];
+    }
+  }
+  const header = request.headers.get(versioning.header ?? "API-Version");
+  if (header) return [header.trim(), pathParts];
+  if (versioning.mediaTypeParam) {
+    const accept = request.headers.get("accept");
+    for (const range of accept?.split(",") ?? []) {
+      for (const param of range.split(";").slice(1)) {
+        const [key, value] = param.split("=", 2).map((p) => p.trim());
+        if (key === versioning.mediaTypeParam && value) {
+          return [value.replace(/^"|"$/g, ""), pathParts];
+        }
+      }
+    }
+  }
+  return [versioning.default, pathParts];
+}
+
+/**
+ * Add the `Deprecation`, `Sunset` and `Link` headers of a deprecated version
+ *  to a response, `Deprecation` being the RFC 9745 `@<unix-epoch>` date.
+ *
+ * @param response the final response
+ * @param version the resolved version
+ * @param versioning the versioning options
+ * @returns the response with the headers, or itself if the version is not
+ *  deprecated
+ */
+export function withDeprecationHeaders(
+  response: Response,
+  version: string | undefined,
+  versioning: RouteVersioning = {}
+): Response {
+  const deprecation =
+    version != null ? versioning.deprecated?.[version] : undefined;
+  if (deprecation == null) return response;
+  // the headers of responses like `Response.redirect` are immutable
+  const headers = new Headers(response.headers);
+  headers.set(
+    "Deprecation",
+    "@" + Math.floor(deprecation.since.getTime() / 1000)
+  );
+  if (deprecation.sunset != null) {
+    headers.set("Sunset", deprecation.sunset.toUTCString());
+  }
+  if (deprecation.link != null) {
+    headers.append("Link", `<${deprecation.link}>; rel="deprecation"`);
+  }
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
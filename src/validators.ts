@@ -6,10 +6,23 @@
  * Provides helpers for validating and extracting query parameters and request bodies.
  */
 
-import { CATEGORIZED_CONTENT_TYPES } from "./defs.ts";
 import { StatusCode } from "./index.ts";
+import { ProblemError } from "./error.ts";
 import type { ProcessedRequest } from "./processed-request.ts";
-import type { ContentTypeCategories, ContentTypes, Handler } from "./types.ts";
+import type {
+  ContentTypeCategories,
+  ContentTypes,
+  Handler,
+  ParamsRecord,
+} from "./types.ts";
+import { expandContentTypes } from "./util/negotiation.ts";
+
+function badRequest(
+  pr: ProcessedRequest<ParamsRecord>,
+  detail: string
+): Response {
+  return pr.problem(new ProblemError(StatusCode.BadRequest, { detail }));
+}
 
 export interface QueryValidatorOptions {
   strict?: boolean;
@@ -18,7 +31,7 @@ export interface QueryValidatorOptions {
 export function query<UserData extends Record<string, unknown>>(
   queryPattern: string,
   options?: BodyValidatorOptions
-): Handler<UserData> {
+): Handler<UserData, ParamsRecord> {
   const strict = Boolean(options?.strict);
   const querySpecs = new Map(
     queryPattern.split(",").map((qp) => {
@@ -28,30 +41,24 @@ export function query<UserData extends Record<string, unknown>>(
   );
   const nqOptional = querySpecs.values().reduce((ac, v) => (v ? ac + 1 : 0), 0);
   const allQueriesOptional = nqOptional === querySpecs.size;
-  return async (pr: ProcessedRequest) => {
+  return async (pr: ProcessedRequest<ParamsRecord>) => {
     const query = await pr.query();
     if (query == null) {
       if (allQueriesOptional) {
         return;
       } else {
-        return pr.json({ error: `query required` }, StatusCode.BadRequest);
+        return badRequest(pr, `query required`);
       }
     }
     for (const [qName, optional] of querySpecs.entries()) {
       if (!optional && query && query[qName] == null) {
-        return pr.json(
-          { error: `missing required query entry \`${qName}\`` },
-          StatusCode.BadRequest
-        );
+        return badRequest(pr, `missing required query entry \`${qName}\``);
       }
     }
     if (strict) {
       for (const qName of Object.keys(query)) {
         if (!querySpecs.has(qName)) {
-          return pr.json(
-            { error: `query entry \`${qName}\` rejected` },
-            StatusCode.BadRequest
-          );
+          return badRequest(pr, `query entry \`${qName}\` rejected`);
         }
       }
     }
@@ -65,7 +72,7 @@ export interface BodyValidatorOptions {
 export function body<UserData extends Record<string, unknown>>(
   bodyPattern: string,
   options?: BodyValidatorOptions
-): Handler<UserData> {
+): Handler<UserData, ParamsRecord> {
   const strict = Boolean(options?.strict);
   const bodySpecs = new Map(
     bodyPattern.split(",").map((qp) => {
@@ -75,30 +82,24 @@ export function body<UserData extends Record<string, unknown>>(
   );
   const nbOptional = bodySpecs.values().reduce((ac, v) => (v ? ac + 1 : 0), 0);
   const allPropsOptional = nbOptional === bodySpecs.size;
-  return async (pr: ProcessedRequest) => {
+  return async (pr: ProcessedRequest<ParamsRecord>) => {
     const body = await pr.body();
     if (body == null) {
       if (allPropsOptional) {
         return;
       } else {
-        return pr.json({ error: `body required` }, StatusCode.BadRequest);
+        return badRequest(pr, `body required`);
       }
     }
     for (const [bName, optional] of bodySpecs.entries()) {
       if (!optional && body && body[bName] == null) {
-        return pr.json(
-          { error: `missing required body entry \`${bName}\`` },
-          StatusCode.BadRequest
-        );
+        return badRequest(pr, `missing required body entry \`${bName}\``);
       }
     }
     if (strict) {
       for (const bName of Object.keys(body)) {
         if (!bodySpecs.has(bName)) {
-          return pr.json(
-            { error: `body entry \`${bName}\` rejected` },
-            StatusCode.BadRequest
-          );
+          return badRequest(pr, `body entry \`${bName}\` rejected`);
         }
       }
     }
@@ -115,68 +116,45 @@ export interface ContentValidatorOptions {
 export function content<UserData extends Record<string, unknown>>(
   contentTypes: ValidationContentTypes | Array<ValidationContentTypes>,
   options?: ContentValidatorOptions
-): Handler<UserData> {
+): Handler<UserData, ParamsRecord> {
   const minLength = options?.minLength;
   const maxLength = options?.maxLength;
-  const contentTypes_ = Array.isArray(contentTypes)
-    ? contentTypes
-    : [contentTypes];
-  const contentTypesSet = new Set();
-  for (const contentType of contentTypes_) {
-    if (CATEGORIZED_CONTENT_TYPES[contentType as ContentTypeCategories]) {
-      const catContentTypes =
-        CATEGORIZED_CONTENT_TYPES[contentType as ContentTypeCategories];
-      for (const catContentType of catContentTypes.keys()) {
-        contentTypesSet.add(catContentType);
-      }
-    } else {
-      contentTypesSet.add(contentType);
-    }
-  }
-  return (pr: ProcessedRequest) => {
+  const contentTypesSet = expandContentTypes(contentTypes);
+  return (pr: ProcessedRequest<ParamsRecord>) => {
     if (pr.content?.type == null) {
-      return pr.json({ error: `content required` }, StatusCode.BadRequest);
+      return badRequest(pr, `content required`);
     }
     if (!contentTypesSet.has(pr.content?.type)) {
-      return pr.json({ error: `content type rejected` }, StatusCode.BadRequest);
+      return badRequest(pr, `content type rejected`);
     }
     if (minLength && pr.content.length < minLength) {
-      return pr.json(
-        { error: `content length underflow` },
-        StatusCode.BadRequest
-      );
+      return badRequest(pr, `content length underflow`);
     }
     if (maxLength && pr.content.length > maxLength) {
-      return pr.json(
-        { error: `content length overflow` },
-        StatusCode.BadRequest
-      );
+      return badRequest(pr, `content length overflow`);
     }
   };
 }
 
 export function noContent<
   UserData extends Record<string, unknown>
->(): Handler<UserData> {
-  return (pr: ProcessedRequest) => {
+>(): Handler<UserData, ParamsRecord> {
+  return (pr: ProcessedRequest<ParamsRecord>) => {
     if (
       pr.content?.type != null ||
       (pr.content?.length && pr.content?.length > 0)
     ) {
-      return pr.json(
-        { error: `content/body not allowed` },
-        StatusCode.BadRequest
-      );
+      return badRequest(pr, `content/body not allowed`);
     }
   };
 }
 
 export function noQuery<
   UserData extends Record<string, unknown>
->(): Handler<UserData> {
-  return (pr: ProcessedRequest) => {
+>(): Handler<UserData, ParamsRecord> {
+  return (pr: ProcessedRequest<ParamsRecord>) => {
     if (pr.url.searchParams.size > 0) {
-      return pr.json({ error: `query not allowed` }, StatusCode.BadRequest);
+      return badRequest(pr, `query not allowed`);
     }
   };
 }
@@ -1,6 +1,26 @@
-import { assertEquals, assert } from "jsr:@std/assert@1";
+import {
+  assert,
+  assertEquals,
+  assertRejects,
+  assertStrictEquals,
+  assertThrows,
+} from "jsr:@std/assert@1";
 
-import { filter, Router, StatusCode } from "@trie/http-router";
+import {
+  auth,
+  filter,
+  formatRouteTree,
+  handle,
+  HttpError,
+  ProblemError,
+  Router,
+  RouterError,
+  type RouterMethod,
+  StatusCode,
+  validate,
+  withState,
+} from "@trie/http-router";
+import { CompiledRoutes } from "../src/util/compiled-routes.ts";
 
 const delay = (timeout: number) =>
   new Promise((resolve) => setTimeout(resolve, timeout));
@@ -69,7 +89,7 @@ router.handle("DELETE /todo/**")([(pr) => pr.end(StatusCode.OK)]);
 Deno.test(async function Defined_Handler__OK() {
   const response = await router.handleRequest(
     new Request("http://localhost:3000/defined"),
-    info
+    info,
   );
   assertEquals(response.status, StatusCode.OK);
 });
@@ -77,7 +97,7 @@ Deno.test(async function Defined_Handler__OK() {
 Deno.test(async function Undefined_Handler__NOT_FOUND() {
   const response = await router.handleRequest(
     new Request("http://localhost:3000/undefined"),
-    info
+    info,
   );
   assertEquals(response.status, StatusCode.NotFound);
 });
@@ -85,7 +105,7 @@ Deno.test(async function Undefined_Handler__NOT_FOUND() {
 Deno.test(async function Unimplemented_Handler__NO_CONTENT() {
   const response = await router.handleRequest(
     new Request("http://localhost:3000/unimplemented"),
-    info
+    info,
   );
   assertEquals(response.status, StatusCode.NoContent);
 });
@@ -94,21 +114,21 @@ Deno.test(async function Case_Sensitivity() {
   {
     const response = await router.handleRequest(
       new Request("http://localhost:3000/case-SENSITIVe"),
-      info
+      info,
     );
     assertEquals(response.status, StatusCode.OK);
   }
   {
     const response = await router.handleRequest(
       new Request("http://localhost:3000/case-sensitive"),
-      info
+      info,
     );
     assertEquals(response.status, StatusCode.NotFound);
   }
   {
     const response = await router.handleRequest(
       new Request("http://localhost:3000/CASE-SENSITIVE"),
-      info
+      info,
     );
     assertEquals(response.status, StatusCode.NotFound);
   }
@@ -117,7 +137,7 @@ Deno.test(async function Case_Sensitivity() {
 Deno.test(async function Parameterized_Paths___OK() {
   const response = await router.handleRequest(
     new Request("http://localhost:3000/"),
-    info
+    info,
   );
   assertEquals(response.status, StatusCode.OK);
   assertEquals(await response.text(), "home");
@@ -126,7 +146,7 @@ Deno.test(async function Parameterized_Paths___OK() {
 Deno.test(async function Parameterized_Paths_Home__OK() {
   const response = await router.handleRequest(
     new Request("http://localhost:3000/home"),
-    info
+    info,
   );
   assertEquals(response.status, StatusCode.OK);
   assertEquals(await response.text(), "home");
@@ -135,7 +155,7 @@ Deno.test(async function Parameterized_Paths_Home__OK() {
 Deno.test(async function Parameterized_Paths_About__OK() {
   const response = await router.handleRequest(
     new Request("http://localhost:3000/about"),
-    info
+    info,
   );
   assertEquals(response.status, StatusCode.OK);
   assertEquals(await response.text(), "about");
@@ -152,7 +172,7 @@ router.append("/api/user", userRouter);
 Deno.test(async function Append_Router__OK() {
   const response = await router.handleRequest(
     new Request("http://localhost:3000/api/user"),
-    info
+    info,
   );
   assertEquals(response.status, StatusCode.OK);
   assertEquals(await response.text(), "hello guest");
@@ -161,7 +181,7 @@ Deno.test(async function Append_Router__OK() {
 Deno.test(async function Append_Router_GET_USER_PARAM__OK() {
   const response = await router.handleRequest(
     new Request("http://localhost:3000/api/user/Admin"),
-    info
+    info,
   );
   assertEquals(response.status, StatusCode.OK);
   assertEquals(await response.text(), "hello Admin");
@@ -170,7 +190,7 @@ Deno.test(async function Append_Router_GET_USER_PARAM__OK() {
 Deno.test(async function Append_Router_DELETE_USER_PARAM__OK() {
   const response = await router.handleRequest(
     new Request("http://localhost:3000/api/user/u1234", { method: "delete" }),
-    info
+    info,
   );
   assertEquals(response.status, StatusCode.OK);
   assertEquals(await response.text(), "bye user u1234");
@@ -180,7 +200,7 @@ Deno.test(async function Hook_Glob__OK() {
   hookResults = {};
   const response = await router.handleRequest(
     new Request("http://localhost:3000/todo/103", { method: "DELETE" }),
-    info
+    info,
   );
   assertEquals(response.status, StatusCode.OK);
   assert(hookResults["HOOK1 /todo/103"]);
@@ -193,7 +213,7 @@ Deno.test(async function Hook_Direct__OK() {
   hookResults = {};
   const response = await router.handleRequest(
     new Request("http://localhost:3000/todo/100"),
-    info
+    info,
   );
   assertEquals(response.status, StatusCode.OK);
   assert(!hookResults["HOOK1 /todo/100"]);
@@ -206,7 +226,7 @@ Deno.test(async function Filter_Access__Control_OK() {
   for (let i = 0; i < 3; i++) {
     const response = await router.handleRequest(
       new Request("http://localhost:3000/limited/resource-a"),
-      info
+      info,
     );
     assertEquals(response.status, StatusCode.OK);
     await delay(900);
@@ -218,14 +238,14 @@ Deno.test(async function Filter_Access_Control__TooManyRequests() {
   for (let i = 0; i < 3; i++) {
     const response = await router.handleRequest(
       new Request("http://localhost:3000/limited/resource-b"),
-      info
+      info,
     );
     assertEquals(response.status, StatusCode.OK);
   }
   for (let i = 0; i < 4; i++) {
     const response = await router.handleRequest(
       new Request("http://localhost:3000/limited/resource-b"),
-      info
+      info,
     );
     assertEquals(response.status, StatusCode.TooManyRequests);
   }
@@ -233,8 +253,1657 @@ Deno.test(async function Filter_Access_Control__TooManyRequests() {
   for (let i = 0; i < 3; i++) {
     const response = await router.handleRequest(
       new Request("http://localhost:3000/limited/resource-b"),
-      info
+      info,
     );
     assertEquals(response.status, StatusCode.OK);
   }
 });
+
+const thingsRouter = new Router();
+
+thingsRouter.handle("GET /things/search")((pr) => pr.text("search"));
+thingsRouter.handle("GET /things/:id<int>")((pr) =>
+  pr.json({ id: pr.params.id })
+);
+thingsRouter.handle("GET /things/:uuid<uuid>/edit")((pr) =>
+  pr.text("edit " + pr.params.uuid)
+);
+thingsRouter.handle("GET /things/:code<[a-z]{3}>")((pr) =>
+  pr.text("code " + pr.params.code)
+);
+
+Deno.test(async function Param_Constraint_Int__OK() {
+  const response = await thingsRouter.handleRequest(
+    new Request("http://localhost:3000/things/42"),
+    info,
+  );
+  assertEquals(response.status, StatusCode.OK);
+  assertEquals(await response.json(), { id: 42 });
+});
+
+Deno.test(async function Param_Constraint_Literal_Sibling__OK() {
+  const response = await thingsRouter.handleRequest(
+    new Request("http://localhost:3000/things/search"),
+    info,
+  );
+  assertEquals(response.status, StatusCode.OK);
+  assertEquals(await response.text(), "search");
+});
+
+Deno.test(async function Param_Constraint_Regex_And_Uuid__OK() {
+  {
+    const response = await thingsRouter.handleRequest(
+      new Request("http://localhost:3000/things/abc"),
+      info,
+    );
+    assertEquals(response.status, StatusCode.OK);
+    assertEquals(await response.text(), "code abc");
+  }
+  {
+    const uuid = "0b5f0c5e-4b8a-4c43-9a3e-5b1b8f0b2f9d";
+    const response = await thingsRouter.handleRequest(
+      new Request(`http://localhost:3000/things/${uuid}/edit`),
+      info,
+    );
+    assertEquals(response.status, StatusCode.OK);
+    assertEquals(await response.text(), "edit " + uuid);
+  }
+});
+
+Deno.test(async function Param_Constraint_Mismatch__NOT_FOUND() {
+  const response = await thingsRouter.handleRequest(
+    new Request("http://localhost:3000/things/abcd"),
+    info,
+  );
+  assertEquals(response.status, StatusCode.NotFound);
+});
+
+const postsRouter = new Router<Record<string, unknown>, { userId: string }>();
+
+postsRouter.handle("GET /posts/:postId<int>")((pr) => {
+  const userId: string = pr.params.userId;
+  const postId: number = pr.params.postId;
+  // @ts-expect-error unknown param names are compile errors
+  pr.params.postID;
+  return pr.json({ userId, postId });
+});
+
+router.append("/users/:userId", postsRouter);
+
+Deno.test(async function Typed_Params_Append_Base_Path__OK() {
+  const response = await router.handleRequest(
+    new Request("http://localhost:3000/users/u12/posts/7"),
+    info,
+  );
+  assertEquals(response.status, StatusCode.OK);
+  assertEquals(await response.json(), { userId: "u12", postId: 7 });
+});
+
+const methodsRouter = new Router();
+
+methodsRouter.handle("GET|PUT /item/:id")((pr) => pr.text("item"));
+methodsRouter.handle("DELETE /item/:id")((pr) => pr.text("deleted"));
+methodsRouter.catch("PATCH /item/:id")((pr) =>
+  pr.text("caught " + pr.statusCode, pr.statusCode)
+);
+
+Deno.test(async function Method_Not_Allowed__METHOD_NOT_ALLOWED() {
+  const response = await methodsRouter.handleRequest(
+    new Request("http://localhost:3000/item/1", { method: "POST" }),
+    info,
+  );
+  assertEquals(response.status, StatusCode.MethodNotAllowed);
+  assertEquals(response.headers.get("Allow"), "GET, PUT, DELETE");
+  await response.body?.cancel();
+});
+
+Deno.test(async function Method_Not_Allowed_Catcher__METHOD_NOT_ALLOWED() {
+  const response = await methodsRouter.handleRequest(
+    new Request("http://localhost:3000/item/1", { method: "PATCH" }),
+    info,
+  );
+  assertEquals(response.status, StatusCode.MethodNotAllowed);
+  assertEquals(await response.text(), "caught 405");
+});
+
+Deno.test(async function Method_Not_Allowed_Unknown_Path__NOT_FOUND() {
+  const response = await methodsRouter.handleRequest(
+    new Request("http://localhost:3000/unknown", { method: "POST" }),
+    info,
+  );
+  assertEquals(response.status, StatusCode.NotFound);
+  await response.body?.cancel();
+});
+
+const autoRouter = new Router({ autoHead: true, autoOptions: true });
+
+autoRouter.handle("GET /page")((pr) => pr.text("hello"));
+autoRouter.handle("POST /page")((pr) => pr.end(StatusCode.Created));
+
+Deno.test(async function Auto_Head__OK() {
+  const response = await autoRouter.handleRequest(
+    new Request("http://localhost:3000/page", { method: "HEAD" }),
+    info,
+  );
+  assertEquals(response.status, StatusCode.OK);
+  assertEquals(response.headers.get("Content-Length"), "5");
+  assertEquals(response.body, null);
+});
+
+Deno.test(async function Auto_Options__NO_CONTENT() {
+  const response = await autoRouter.handleRequest(
+    new Request("http://localhost:3000/page", { method: "OPTIONS" }),
+    info,
+  );
+  assertEquals(response.status, StatusCode.NoContent);
+  assertEquals(response.headers.get("Allow"), "HEAD, OPTIONS, GET, POST");
+});
+
+Deno.test(async function Auto_Options_Unknown_Path__NOT_FOUND() {
+  const response = await autoRouter.handleRequest(
+    new Request("http://localhost:3000/unknown", { method: "OPTIONS" }),
+    info,
+  );
+  assertEquals(response.status, StatusCode.NotFound);
+  await response.body?.cancel();
+});
+
+const davRouter = new Router({ methods: ["QUERY", "propfind"] });
+
+davRouter.filter("* /dav/**")([filter.accessControl({})]);
+davRouter.handle("QUERY /search")(async (pr) => pr.json(await pr.body()));
+davRouter.handle("* /dav/**")((pr) => pr.text(pr.method));
+
+Deno.test(async function Extension_Method__OK() {
+  const response = await davRouter.handleRequest(
+    new Request("http://localhost:3000/search", {
+      method: "QUERY",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({ q: "trie" }),
+    }),
+    info,
+  );
+  assertEquals(response.status, StatusCode.OK);
+  assertEquals(await response.json(), { q: "trie" });
+});
+
+Deno.test(async function Extension_Method_Wildcard__OK() {
+  const response = await davRouter.handleRequest(
+    new Request("http://localhost:3000/dav/file.txt", { method: "PROPFIND" }),
+    info,
+  );
+  assertEquals(response.status, StatusCode.OK);
+  assertEquals(await response.text(), "PROPFIND");
+  assertEquals(
+    response.headers.get("Access-Control-Allow-Methods"),
+    "HEAD, OPTIONS, GET, POST, PUT, PATCH, DELETE, QUERY, PROPFIND",
+  );
+  // @ts-expect-error router methods are not widened to any string
+  const unknownMethod: RouterMethod = "BREW";
+  assertEquals(davRouter.methods.includes(unknownMethod), false);
+});
+
+Deno.test(function Extension_Method_Unregistered__THROWS() {
+  assertThrows(
+    () => router.handle("QUERY /search")((pr) => pr.end()),
+    RouterError,
+  );
+});
+
+const pluginRouter = new Router();
+
+pluginRouter.handle("GET|POST /feature,/feature/:id")((pr) => pr.text("on"));
+
+Deno.test(async function Remove_Route__METHOD_NOT_ALLOWED() {
+  const removableRouter = new Router();
+  removableRouter.handle("GET|POST /feature,/feature/:id")((pr) =>
+    pr.text("on")
+  );
+  removableRouter.remove("GET /feature/:featureId");
+  const response = await removableRouter.handleRequest(
+    new Request("http://localhost:3000/feature/1"),
+    info,
+  );
+  assertEquals(response.status, StatusCode.MethodNotAllowed);
+  await response.body?.cancel();
+  assertEquals(removableRouter.routeSets.handler.map(([mp]) => mp), [
+    "GET /feature",
+    "POST /feature,/feature/:id",
+  ]);
+  removableRouter.remove("GET|POST /feature", "POST /feature/:id");
+  assertEquals(removableRouter.routeSets.handler, []);
+  assertEquals(removableRouter.routes.handler.GET.root.children.size, 0);
+  assertEquals(removableRouter.routes.handler.POST.root.children.size, 0);
+});
+
+Deno.test(async function Replace_Route__OK() {
+  pluginRouter.replace("GET /feature")((pr) => pr.text("replaced"));
+  {
+    const response = await pluginRouter.handleRequest(
+      new Request("http://localhost:3000/feature"),
+      info,
+    );
+    assertEquals(await response.text(), "replaced");
+  }
+  {
+    const response = await pluginRouter.handleRequest(
+      new Request("http://localhost:3000/feature", { method: "POST" }),
+      info,
+    );
+    assertEquals(await response.text(), "on");
+  }
+});
+
+Deno.test(async function Unmount_Router__NOT_FOUND() {
+  const mainRouter = new Router();
+  const childRouter = new Router();
+  childRouter.handle("GET /,/:id")((pr) => pr.text("child"));
+  childRouter.hook("* /**")(() => {});
+  mainRouter.handle("GET /other")((pr) => pr.text("other"));
+  mainRouter.append("/child", childRouter);
+  mainRouter.unmount("/child");
+  const response = await mainRouter.handleRequest(
+    new Request("http://localhost:3000/child/1"),
+    info,
+  );
+  assertEquals(response.status, StatusCode.NotFound);
+  await response.body?.cancel();
+  assertEquals(mainRouter.routeSets.handler.map(([mp]) => mp), [
+    "GET /other",
+  ]);
+  assertEquals(mainRouter.routeSets.hook, []);
+});
+
+Deno.test(function List_Routes__OK() {
+  const listedRouter = new Router();
+  const getUser = () => {};
+  listedRouter.hook("GET /users/**")([function audit() {}]);
+  listedRouter.handle("GET /users/:id<int>,/users/me")([getUser]);
+  listedRouter.handle("DELETE /users/:id<int>")(() => {});
+  assertEquals(listedRouter.listRoutes(), [
+    {
+      type: "hook",
+      method: "GET",
+      path: "/users/**",
+      params: [],
+      handlerNames: ["audit"],
+    },
+    {
+      type: "handler",
+      method: "GET",
+      path: "/users/:id<int>",
+      params: ["id"],
+      handlerNames: ["getUser"],
+    },
+    {
+      type: "handler",
+      method: "GET",
+      path: "/users/me",
+      params: [],
+      handlerNames: ["getUser"],
+    },
+    {
+      type: "handler",
+      method: "DELETE",
+      path: "/users/:id<int>",
+      params: ["id"],
+      handlerNames: ["anonymous"],
+    },
+  ]);
+  assertEquals(
+    formatRouteTree(listedRouter.listRoutes()),
+    [
+      "/",
+      "└─ users",
+      "   ├─ **  GET hook(audit)",
+      "   ├─ :id<int>  GET handler(getUser), DELETE handler(anonymous)",
+      "   └─ me  GET handler(getUser)",
+    ].join("\n"),
+  );
+});
+
+const issuesRouter = new Router({ strictRoutes: true });
+issuesRouter.handle("GET /a/**/b")(() => {});
+issuesRouter.handle("GET /n/:id<int>", "GET /n/:n<uint>")(() => {});
+issuesRouter.handle("GET /users/:id", "GET /users/:userId/posts")(() => {});
+issuesRouter.hook("GET /nothing/**")(() => {});
+
+Deno.test(async function Validate_Routes__NO_CONTENT() {
+  assertEquals(
+    issuesRouter.validate().map(({ kind, path }) => [kind, path]),
+    [
+      ["unreachable", "/a/**/b"],
+      ["unreachable", "/n/:n<uint>"],
+      ["param-names", "/users/*"],
+      ["unmatched", "/nothing/**"],
+    ],
+  );
+  await assertRejects(
+    () =>
+      issuesRouter.handleRequest(
+        new Request("http://localhost:3000/users/1"),
+        info,
+      ),
+    RouterError,
+  );
+  issuesRouter.remove("GET /a/**/b", "GET /n/:n<uint>", "GET /users/:id");
+  issuesRouter.remove("GET /nothing/**");
+  assertEquals(issuesRouter.validate(), []);
+  const response = await issuesRouter.handleRequest(
+    new Request("http://localhost:3000/users/1/posts"),
+    info,
+  );
+  assertEquals(response.status, StatusCode.NoContent);
+});
+
+const namedRouter = new Router();
+namedRouter.handle("GET /users/:id<int>")(() => {}, { name: "user" });
+namedRouter.handle("GET /|home|about:page")(() => {}, { name: "page" });
+namedRouter.handle("GET /files/**:path")(() => {}, { name: "file" });
+namedRouter.handle("GET /old-user/:id")(
+  (pr) => pr.redirectTo("user", { id: pr.params.id }, { from: "old" }),
+  { name: "oldUser" },
+);
+namedRouter.append(
+  "/api/v1",
+  new Router().handle("GET /posts/:postId")(() => {}, { name: "post" }),
+);
+
+Deno.test(function Named_Route_Url__OK() {
+  assertEquals(namedRouter.url("user", { id: 42 }), "/users/42");
+  assertEquals(
+    namedRouter.url("user", { id: 1 }, { tab: "posts", tag: ["a b", "c"] }),
+    "/users/1?tab=posts&tag=a+b&tag=c",
+  );
+  assertEquals(namedRouter.url("page"), "/");
+  assertEquals(namedRouter.url("page", { page: "about" }), "/about");
+  assertEquals(
+    namedRouter.url("file", { path: "docs/a b.txt" }),
+    "/files/docs/a%20b.txt",
+  );
+  assertEquals(
+    namedRouter.url("post", { postId: "x/y" }),
+    "/api/v1/posts/x%2Fy",
+  );
+  assertThrows(() => namedRouter.url("user"), RouterError);
+  assertThrows(() => namedRouter.url("user", { id: "me" }), RouterError);
+  assertThrows(() => namedRouter.url("page", { page: "x" }), RouterError);
+  assertThrows(() => namedRouter.url("missing"), RouterError);
+  assertThrows(
+    () => namedRouter.handle("GET /other")(() => {}, { name: "user" }),
+    RouterError,
+  );
+});
+
+Deno.test(async function Named_Route_Redirect__MOVED_PERMANENTLY() {
+  const response = await namedRouter.handleRequest(
+    new Request("http://localhost:3000/old-user/7"),
+    info,
+  );
+  assertEquals(response.status, StatusCode.MovedPermanently);
+  assertEquals(response.headers.get("Location"), "/users/7?from=old");
+  namedRouter.remove("GET /users/:id<int>");
+  assertThrows(() => namedRouter.url("user", { id: 7 }), RouterError);
+});
+
+const hostsRouter = new Router();
+hostsRouter.handle("GET /")((pr) => pr.text("main"));
+hostsRouter
+  .host(":tenant.example.com")
+  .handle("GET /users/:id")((pr) =>
+    pr.text(`${pr.params.tenant} ${pr.params.id}`)
+  );
+hostsRouter.host("**.admin.test").handle("GET /")((pr) => pr.text("admin"));
+const tenantApiRouter = new Router();
+tenantApiRouter.host(":id<uint>.example.org").handle("GET /ping")((pr) => {
+  const id: number = pr.params.id;
+  return pr.json({ id });
+});
+hostsRouter.append("/api", tenantApiRouter);
+
+Deno.test(async function Host_Routes__OK() {
+  const text = async (url: string) => {
+    const response = await hostsRouter.handleRequest(new Request(url), info);
+    return [response.status, await response.text()];
+  };
+  assertEquals(await text("http://localhost:3000/"), [200, "main"]);
+  assertEquals(await text("http://acme.example.com/users/7"), [200, "acme 7"]);
+  assertEquals(await text("http://a.b.admin.test/"), [200, "admin"]);
+  assertEquals(await text("http://admin.test/"), [200, "main"]);
+  assertEquals(await text("http://12.example.org/api/ping"), [
+    200,
+    '{"id":12}',
+  ]);
+  assertEquals((await text("http://acme.example.com/"))[0], 404);
+  assertEquals((await text("http://x.example.org/api/ping"))[0], 404);
+});
+
+const negotiationRouter = new Router();
+negotiationRouter
+  .handle("GET /items")((pr) => pr.json([1]), { accept: "application/json" })
+  .handle("GET /items")((pr) => pr.html("<ul></ul>"), { accept: "text/html" })
+  .handle("POST /items")((pr) => pr.text("json"), {
+    contentType: "application/json",
+  })
+  .handle("POST /items")((pr) => pr.text("form"), {
+    contentType: "application/x-www-form-urlencoded",
+  })
+  .handle("GET /beta")((pr) => pr.text("beta"), {
+    headers: { "x-beta": "1" },
+  })
+  .handle("GET /report")((pr) => pr.text("v2"), { version: "2" })
+  .handle("GET /report")((pr) => pr.text("default"));
+
+Deno.test(async function Route_Conditions__OK() {
+  const request = async (url: string, init?: RequestInit) => {
+    const response = await negotiationRouter.handleRequest(
+      new Request("http://localhost:3000" + url, init),
+      info,
+    );
+    return [response.status, await response.text()];
+  };
+  const accept = (value: string) => ({ headers: { accept: value } });
+  assertEquals(await request("/items"), [200, "[1]"]);
+  assertEquals(await request("/items", accept("text/html")), [
+    200,
+    "<ul></ul>",
+  ]);
+  assertEquals(
+    await request("/items", accept("application/json;q=0.5, text/*")),
+    [200, "<ul></ul>"],
+  );
+  assertEquals(
+    await request("/items", accept("application/json;q=0, */*;q=0.5")),
+    [200, "<ul></ul>"],
+  );
+  assertEquals(
+    (await request("/items", accept("application/json;q=0, image/*")))[0],
+    406,
+  );
+  assertEquals((await request("/items", accept("image/png")))[0], 406);
+  const post = (contentType: string) => ({
+    method: "POST",
+    headers: { "content-type": contentType },
+    body: "",
+  });
+  assertEquals(await request("/items", post("application/json")), [
+    200,
+    "json",
+  ]);
+  assertEquals(
+    await request("/items", post("application/x-www-form-urlencoded")),
+    [200, "form"],
+  );
+  assertEquals((await request("/items", post("text/plain")))[0], 415);
+  assertEquals((await request("/beta"))[0], 404);
+  assertEquals(await request("/beta", { headers: { "x-beta": "1" } }), [
+    200,
+    "beta",
+  ]);
+  assertEquals(await request("/report"), [200, "default"]);
+  assertEquals(await request("/report", { headers: { "api-version": "2" } }), [
+    200,
+    "v2",
+  ]);
+});
+
+Deno.test(async function Route_Conditions_Vary__OK() {
+  const vary = async (url: string, init?: RequestInit) => {
+    const response = await negotiationRouter.handleRequest(
+      new Request("http://localhost:3000" + url, init),
+      info,
+    );
+    await response.body?.cancel();
+    return response.headers.get("Vary");
+  };
+  assertEquals(
+    await vary("/items", { headers: { accept: "text/html" } }),
+    "Accept",
+  );
+  assertEquals(
+    await vary("/items", { headers: { accept: "image/png" } }),
+    "Accept",
+  );
+  assertEquals(
+    await vary("/items", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: "",
+    }),
+    "Content-Type",
+  );
+  assertEquals(await vary("/beta"), "x-beta");
+  assertEquals(await vary("/report"), "API-Version");
+  assertEquals(
+    await new Router()
+      .handle("GET /")(
+        () => new Response("csv", { headers: { Vary: "Origin, accept" } }),
+        { accept: "text/csv" },
+      )
+      .handleRequest(new Request("http://localhost:3000/"), info)
+      .then((response) => response.headers.get("Vary")),
+    "Origin, accept",
+  );
+});
+
+const versionedRouter = new Router({
+  versioning: {
+    path: true,
+    mediaTypeParam: "version",
+    default: "2",
+    deprecated: {
+      "1": {
+        since: new Date("2026-01-01T00:00:00Z"),
+        sunset: new Date("2027-01-01T00:00:00Z"),
+        link: "https://example.com/migrate",
+      },
+    },
+  },
+});
+versionedRouter
+  .handle("GET /report")((pr) => pr.text("v1"), { version: "1" })
+  .handle("GET /report")((pr) => pr.text(`v${pr.version}`), {
+    version: ["2", "3"],
+  })
+  .handle("GET /status")((pr) => pr.text(`status v${pr.version}`))
+  .handle("GET /raw")(() => new Response("raw"))
+  .handle("GET /current")((pr) => pr.text("current"), { version: "2" })
+  .handle("GET /v1/legacy")((pr) => pr.text(`legacy v${pr.version}`));
+
+Deno.test(async function Versioned_Routes__OK() {
+  const request = async (url: string, init?: RequestInit) => {
+    const response = await versionedRouter.handleRequest(
+      new Request("http://localhost:3000" + url, init),
+      info,
+    );
+    return [response.status, await response.text()];
+  };
+  assertEquals(await request("/report"), [200, "v2"]);
+  assertEquals(await request("/v3/report"), [200, "v3"]);
+  assertEquals(await request("/report", { headers: { "api-version": "3" } }), [
+    200,
+    "v3",
+  ]);
+  assertEquals(
+    await request("/report", {
+      headers: { accept: "text/plain; version=3" },
+    }),
+    [200, "v3"],
+  );
+  assertEquals(await request("/v3/status"), [200, "status v3"]);
+  assertEquals((await request("/v4/report"))[0], 404);
+  // prefixes of unknown versions or unrouted paths are kept
+  assertEquals((await request("/v999/status"))[0], 404);
+  assertEquals(await request("/v1/legacy"), [200, "legacy v2"]);
+  const response = await versionedRouter.handleRequest(
+    new Request("http://localhost:3000/v1/report"),
+    info,
+  );
+  assertEquals(await response.text(), "v1");
+  assertEquals(response.headers.get("Deprecation"), "@1767225600");
+  assertEquals(
+    response.headers.get("Sunset"),
+    "Fri, 01 Jan 2027 00:00:00 GMT",
+  );
+  assertEquals(
+    response.headers.get("Link"),
+    '<https://example.com/migrate>; rel="deprecation"',
+  );
+  for (const [url, status] of [["/v1/raw", 200], ["/v1/current", 404]]) {
+    const response = await versionedRouter.handleRequest(
+      new Request("http://localhost:3000" + url),
+      info,
+    );
+    await response.body?.cancel();
+    assertEquals(response.status, status);
+    assertEquals(response.headers.get("Deprecation"), "@1767225600");
+  }
+  const current = await versionedRouter.handleRequest(
+    new Request("http://localhost:3000/v2/raw"),
+    info,
+  );
+  assertEquals(await current.text(), "raw");
+  assertEquals(current.headers.get("Deprecation"), null);
+});
+
+const patternsRouter = new Router();
+patternsRouter
+  .handle("GET /files/readme")((pr) => pr.text("static"))
+  .handle("GET /files/:id<int>.json")((pr) => {
+    const id: number = pr.params.id;
+    return pr.json({ id });
+  })
+  .handle("GET /files/:name.:ext")((pr) => pr.json(pr.params))
+  .handle("GET /files/*")((pr) => pr.text("glob"))
+  .handle("GET /api/v:major(\\d+)/status")((pr) => pr.json(pr.params))
+  .handle("GET /@:user")((pr) => pr.text(pr.params.user))
+  .handle("GET /**")((pr) => pr.text("greedy"));
+
+Deno.test(async function Segment_Patterns__OK() {
+  const request = async (url: string) => {
+    const response = await patternsRouter.handleRequest(
+      new Request("http://localhost:3000" + url),
+      info,
+    );
+    return await response.text();
+  };
+  assertEquals(
+    await request("/files/report.tar.gz"),
+    '{"name":"report","ext":"tar.gz"}',
+  );
+  assertEquals(await request("/files/readme"), "static");
+  assertEquals(await request("/files/7.json"), '{"id":7}');
+  assertEquals(await request("/files/notes"), "glob");
+  assertEquals(await request("/api/v2/status"), '{"major":"2"}');
+  assertEquals(await request("/api/vx/status"), "greedy");
+  assertEquals(await request("/@ada"), "ada");
+  assertEquals(
+    patternsRouter.listRoutes().map(({ path }) => path),
+    [
+      "/files/readme",
+      "/files/:id<int>.json",
+      "/files/:name.:ext",
+      "/files/*",
+      "/api/v:major(\\d+)/status",
+      "/@:user",
+      "/**",
+    ],
+  );
+  assertEquals(
+    new Router()
+      .handle("GET /dl/:name.:ext")(() => {}, { name: "dl" })
+      .url("dl", { name: "a b", ext: "txt" }),
+    "/dl/a%20b.txt",
+  );
+  // constrained params are tried before segment patterns
+  const orderRouter = new Router()
+    .handle("GET /items/:id(\\d+)")((pr) => pr.text("pattern"))
+    .handle("GET /items/:id<int>")((pr) => pr.text("constrained"));
+  const response = await orderRouter.handleRequest(
+    new Request("http://localhost:3000/items/7"),
+    info,
+  );
+  assertEquals(await response.text(), "constrained");
+  // a `|` in a regular expression is no alternative
+  const sizesRouter = new Router()
+    .handle("GET /shirts/:size(s|m|\\(l\\|xl\\))")((pr) => {
+      const size: string = pr.params.size;
+      return pr.text(size);
+    })
+    .handle("GET /shirts/**")((pr) => pr.text("greedy"));
+  const sizes = [];
+  for (const size of ["s", "m", "(l|xl)", "l", "s|m"]) {
+    const response = await sizesRouter.handleRequest(
+      new Request("http://localhost:3000/shirts/" + encodeURIComponent(size)),
+      info,
+    );
+    sizes.push(await response.text());
+  }
+  assertEquals(sizes, ["s", "m", "(l|xl)", "greedy", "greedy"]);
+});
+
+Deno.test(function Compiled_Routes_Match_Path_Tries__OK() {
+  const noop = () => {};
+  const matchedRouter = new Router()
+    .filter("GET /**", "GET /files/*", "GET /files/:id<int>.json")(noop)
+    .hook("GET /", "GET /files/**", "GET /@:user")(noop)
+    .handle("GET /files/readme", "GET /files/:name.:ext", "GET /**")(noop)
+    .handle("GET /files/:n<uint>", "GET /api/*/status", "GET /@:user")(noop)
+    .fallback("GET /files/**")(noop)
+    .catch("GET /api/**", "GET /files/x")(noop)
+    .use("GET /files/**", "GET /files/:id<int>.json")(noop)
+    .after("GET /**", "GET /@:user")(noop)
+    // constrained params in different orders by route type
+    .filter("GET /n/:a<uint>", "GET /n/:b<int>")(noop)
+    .handle("GET /n/:b<int>", "GET /n/:a<uint>")(noop);
+  const compiled = new CompiledRoutes(
+    matchedRouter.routes,
+    matchedRouter.methods,
+  );
+  const routes = matchedRouter.routes;
+  for (
+    const path of [
+      "/",
+      "/files/readme",
+      "/files/7.json",
+      "/files/a.b",
+      "/files/x",
+      "/files/x/y",
+      "/api/v1/status",
+      "/@ada",
+      "/%40ada",
+      "/n/3",
+    ]
+  ) {
+    const pathParts = path.split("/").filter(Boolean);
+    const match = compiled.match("GET", pathParts);
+    assertEquals(match.middleware, routes.middleware.GET.getAll(pathParts));
+    assertEquals(match.filter, routes.filter.GET.getAll(pathParts));
+    assertEquals(match.hook, routes.hook.GET.getAll(pathParts));
+    assertStrictEquals(match.handler, routes.handler.GET.get(pathParts));
+    assertStrictEquals(match.fallback, routes.fallback.GET.get(pathParts));
+    assertStrictEquals(match.catcher, routes.catcher.GET.get(pathParts));
+    assertStrictEquals(match.catchers[0], match.catcher);
+    assertEquals(match.after, routes.after.GET.getAll(pathParts));
+  }
+});
+
+/** a seeded pseudo random number generator for reproducible property tests */
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Naive reference matcher: the ranks of the route segments matching the
+ *  path segments, compared lexicographically, or undefined if the route
+ *  does not match. `**` matches the one or more remaining segments.
+ */
+function referenceKey(
+  route: Array<string>,
+  path: Array<string>,
+  greedyRank: number,
+): Array<number> | undefined {
+  const greedy = route[route.length - 1] === "**";
+  const fixed = greedy ? route.slice(0, -1) : route;
+  if (greedy ? path.length <= fixed.length : path.length !== fixed.length) {
+    return undefined;
+  }
+  const key: Array<number> = [];
+  for (let i = 0; i < fixed.length; i++) {
+    const segment = fixed[i];
+    if (segment === "*") key.push(2);
+    else if (segment.startsWith(":")) {
+      if (!/^-?\d{1,15}$/.test(path[i])) return undefined;
+      key.push(1);
+    } else if (segment === path[i]) key.push(0);
+    else return undefined;
+  }
+  if (greedy) key.push(greedyRank);
+  return key;
+}
+
+function compareKeys(a: Array<number>, b: Array<number>) {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+Deno.test(function Path_Trie_Backtracking_Matches_Reference__OK() {
+  const router = new Router();
+  router.handle("GET /a/b/c")(() => {});
+  router.handle("GET /a/*/d")(() => {});
+  router.handle("GET /a/**")(() => {});
+  const get = (path: string) =>
+    router.routes.handler.GET.get(path.split("/").slice(1))?.pattern();
+  assertEquals(get("/a/b/c"), "/a/b/c");
+  assertEquals(get("/a/b/d"), "/a/*/d");
+  assertEquals(get("/a/b/x"), "/a/**");
+  const random = mulberry32(9457);
+  const segments = ["a", "b", "1", "*", ":p<int>"];
+  const pathSegments = ["a", "b", "1", "22", "x"];
+  const paths: Array<Array<string>> = [[]];
+  for (let length = 1; length <= 3; length++) {
+    for (const path of paths.filter((path) => path.length === length - 1)) {
+      for (const segment of pathSegments) paths.push([...path, segment]);
+    }
+  }
+  for (let run = 0; run < 150; run++) {
+    const routes: Map<string, Array<string>> = new Map();
+    const routesCount = 1 + Math.floor(random() * 8);
+    while (routes.size < routesCount) {
+      const length = 1 + Math.floor(random() * 3);
+      const route = Array.from({ length }, (_, i) => {
+        const segment = segments[Math.floor(random() * segments.length)];
+        return segment.startsWith(":") ? `:p${i}<int>` : segment;
+      });
+      if (random() < 0.3) route[length - 1] = "**";
+      routes.set("/" + route.join("/"), route);
+    }
+    const noop = () => {};
+    const trieRouter = new Router();
+    for (const path of routes.keys()) {
+      trieRouter.filter(`GET ${path}`)(noop);
+      trieRouter.handle(`GET ${path}`)(noop);
+    }
+    const { filter, handler } = trieRouter.routes;
+    const compiled = new CompiledRoutes(trieRouter.routes, trieRouter.methods);
+    for (const path of paths) {
+      const keyed = [...routes]
+        .map(([route, segments]) => ({
+          route,
+          get: referenceKey(segments, path, 3),
+          getAll: referenceKey(segments, path, -1),
+        }))
+        .filter(({ get }) => get != null);
+      const best = keyed.sort((a, b) => compareKeys(a.get!, b.get!))[0];
+      const all = keyed
+        .sort((a, b) => compareKeys(a.getAll!, b.getAll!))
+        .map(({ route }) => route);
+      const message = `routes ${[...routes.keys()]} path /${path.join("/")}`;
+      const match = compiled.match("GET", path);
+      assertEquals(handler.GET.get(path)?.pattern(), best?.route, message);
+      assertEquals(match.handler?.pattern(), best?.route, message);
+      assertEquals(
+        filter.GET.getAll(path).map((node) => node.pattern()),
+        all,
+        message,
+      );
+      assertEquals(
+        match.filter.map((node) => node.pattern()),
+        all,
+        message,
+      );
+    }
+  }
+});
+
+const assetsDir = Deno.makeTempDirSync();
+Deno.mkdirSync(assetsDir + "/css");
+Deno.writeTextFileSync(assetsDir + "/css/site.css", "body {}");
+
+const assetsRouter = new Router<Record<string, unknown>, { bucket: string }>()
+  .handle("GET /files/**:rest")((pr) => {
+    const rest: string = pr.params.rest;
+    return pr.json({ bucket: pr.params.bucket, rest });
+  })
+  .handle("GET /page/*:seg")((pr) => pr.text(pr.params.seg))
+  .handle("GET /static/**:rest")(
+    handle.staticFiles({ path: assetsDir, param: "rest" }),
+  );
+
+const globsRouter = new Router().append("/assets/:bucket", assetsRouter);
+
+Deno.test(async function Glob_Params__OK() {
+  const request = async (url: string) => {
+    const response = await globsRouter.handleRequest(
+      new Request("http://localhost:3000" + url),
+      info,
+    );
+    return [response.status, await response.text()];
+  };
+  assertEquals(await request("/assets/b1/files/a/b%20c/d.txt"), [
+    StatusCode.OK,
+    '{"bucket":"b1","rest":"a/b%20c/d.txt"}',
+  ]);
+  assertEquals(await request("/assets/b1/files/"), [
+    StatusCode.NotFound,
+    "Not Found",
+  ]);
+  assertEquals(await request("/assets/b1/page/intro"), [
+    StatusCode.OK,
+    "intro",
+  ]);
+  assertEquals(await request("/assets/b1/static/css/site.css"), [
+    StatusCode.OK,
+    "body {}",
+  ]);
+  const mountedAssets = new Router().mount(
+    "/public",
+    new Router().handle("GET /**")(handle.staticFiles({ path: assetsDir })),
+  );
+  const response = await mountedAssets.handleRequest(
+    new Request("http://localhost:3000/public/css/site.css"),
+    info,
+  );
+  assertEquals(await response.text(), "body {}");
+  assertEquals(
+    globsRouter.listRoutes().map(({ path }) => path),
+    [
+      "/assets/:bucket/files/**:rest",
+      "/assets/:bucket/page/:seg",
+      "/assets/:bucket/static/**:rest",
+    ],
+  );
+});
+
+const redirectSlashesRouter = new Router({
+  trailingSlash: "redirect",
+  duplicateSlashes: "redirect",
+  caseInsensitive: true,
+})
+  .handle("GET /docs/")((pr) => pr.text("docs"), { name: "docs" })
+  .handle("GET /Users/:id")((pr) => pr.text(pr.params.id))
+  .append("/api", new Router().handle("GET /")((pr) => pr.text("api")));
+
+const strictSlashesRouter = new Router({
+  trailingSlash: "strict",
+  duplicateSlashes: "strict",
+})
+  .handle("GET /a")((pr) => pr.text("a"))
+  .handle("GET /a/")((pr) => pr.text("a/"))
+  .handle("GET /Users/:id")((pr) => pr.text(pr.params.id))
+  .handle("GET /files/**")((pr) => pr.text("files"));
+
+Deno.test(async function Slash_And_Case_Policies__OK() {
+  const request = async (
+    router: Router<Record<string, unknown>>,
+    url: string,
+  ) => {
+    const response = await router.handleRequest(
+      new Request("http://localhost:3000" + url),
+      info,
+    );
+    return [
+      response.status,
+      response.headers.get("Location") ?? (await response.text()),
+    ];
+  };
+  const redirecting = (url: string) => request(redirectSlashesRouter, url);
+  assertEquals(await redirecting("/docs"), [
+    StatusCode.PermanentRedirect,
+    "/docs/",
+  ]);
+  assertEquals(await redirecting("/docs/"), [StatusCode.OK, "docs"]);
+  assertEquals(await redirecting("/USERS/Ada/?tab=1"), [
+    StatusCode.PermanentRedirect,
+    "/USERS/Ada?tab=1",
+  ]);
+  assertEquals(await redirecting("//users//Ada"), [
+    StatusCode.PermanentRedirect,
+    "/users/Ada",
+  ]);
+  assertEquals(await redirecting("/users/Ada"), [StatusCode.OK, "Ada"]);
+  assertEquals(await redirecting("/api"), [StatusCode.OK, "api"]);
+  assertEquals(await redirecting("/api/"), [
+    StatusCode.PermanentRedirect,
+    "/api",
+  ]);
+  assertEquals(redirectSlashesRouter.url("docs"), "/docs/");
+  const strict = (url: string) => request(strictSlashesRouter, url);
+  assertEquals(await strict("/a"), [StatusCode.OK, "a"]);
+  assertEquals(await strict("/a/"), [StatusCode.OK, "a/"]);
+  assertEquals(await strict("/Users/1/"), [StatusCode.NotFound, "Not Found"]);
+  assertEquals(await strict("/users/1"), [StatusCode.NotFound, "Not Found"]);
+  assertEquals(await strict("/Users//1"), [StatusCode.NotFound, "Not Found"]);
+  assertEquals(await strict("/files/x/"), [StatusCode.OK, "files"]);
+  assertEquals(
+    strictSlashesRouter.listRoutes().map(({ path }) => path),
+    ["/a", "/a/", "/Users/:id", "/files/**"],
+  );
+});
+
+const orgRouter = new Router<Record<string, unknown>, { org: string }>({
+  autoOptions: true,
+})
+  .handle("GET /")((pr) => pr.text("index " + pr.pathname))
+  .handle("GET /users/:id")(
+    (pr) =>
+      pr.json({
+        org: pr.params.org,
+        id: pr.params.id,
+        url: pr.urlFor("user", { id: pr.params.id }),
+      }),
+    { name: "user" },
+  )
+  .catch("GET /**")((pr) =>
+    pr.text("caught " + pr.error?.message, StatusCode.InternalServerError)
+  );
+
+const mountingRouter = new Router()
+  .handle("GET /orgs/:org/about")((pr) => pr.text("about " + pr.params.org))
+  .mount("/orgs/:org", orgRouter)
+  .mount("/teams/:org", orgRouter);
+
+orgRouter.handle("GET /fail")(() => {
+  throw new Error("failed");
+});
+
+Deno.test(async function Mount_Router__OK() {
+  const request = async (url: string, method = "GET") => {
+    const response = await mountingRouter.handleRequest(
+      new Request("http://localhost:3000" + url, { method }),
+      info,
+    );
+    return [response.status, await response.text()];
+  };
+  assertEquals(await request("/orgs/acme"), [StatusCode.OK, "index /"]);
+  assertEquals(await request("/orgs/acme/users/7"), [
+    StatusCode.OK,
+    '{"org":"acme","id":"7","url":"/orgs/acme/users/7"}',
+  ]);
+  assertEquals(await request("/teams/t1/users/7"), [
+    StatusCode.OK,
+    '{"org":"t1","id":"7","url":"/teams/t1/users/7"}',
+  ]);
+  assertEquals(await request("/orgs/acme/about"), [
+    StatusCode.OK,
+    "about acme",
+  ]);
+  assertEquals(await request("/orgs/acme/fail"), [
+    StatusCode.InternalServerError,
+    "caught failed",
+  ]);
+  assertEquals(await request("/orgs/%E0%A4%A/fail"), [
+    StatusCode.InternalServerError,
+    "caught failed",
+  ]);
+  assertEquals(await request("/orgs/acme/%E0%A4%A"), [
+    StatusCode.BadRequest,
+    "Bad Request",
+  ]);
+  assertEquals(await request("/orgs/acme/users/7", "OPTIONS"), [
+    StatusCode.NoContent,
+    "",
+  ]);
+  assertEquals(
+    mountingRouter.listRoutes().map(({ type, path }) => `${type} ${path}`),
+    [
+      "handler /orgs/:org/about",
+      "handler /orgs/:org",
+      "handler /orgs/:org/users/:id",
+      "handler /orgs/:org/fail",
+      "catcher /orgs/:org/**",
+      "handler /teams/:org",
+      "handler /teams/:org/users/:id",
+      "handler /teams/:org/fail",
+      "catcher /teams/:org/**",
+    ],
+  );
+  mountingRouter.unmount("/teams");
+  assertEquals(await request("/teams/t1/users/7"), [
+    StatusCode.NotFound,
+    "Not Found",
+  ]);
+  const outer = new Router();
+  const inner = new Router().mount("/outer", outer);
+  assertThrows(() => outer.mount("/inner", inner), RouterError);
+  assertThrows(
+    () => outer.mount("/deep", new Router().mount("/inner", inner)),
+    RouterError,
+  );
+  // routers mounted more than once are no cycle
+  const shared = new Router();
+  outer.mount("/a", shared).mount("/b", new Router().mount("/c", shared));
+});
+
+const groupLog: Array<string> = [];
+
+const groupsRouter = new Router()
+  .group("/admin", (admin) => {
+    admin
+      .filter((pr) => {
+        if (pr.request.headers.get("Authorization") !== "admin") {
+          return pr.text("forbidden", StatusCode.Forbidden);
+        }
+      })
+      .handle("GET /users/:id")((pr) => pr.text("user " + pr.params.id))
+      .handle("GET /empty")(() => {})
+      .fallback((pr) => pr.text("admin fallback"))
+      .group("/reports", (reports) => {
+        reports
+          .hook((pr) => {
+            groupLog.push("hook " + pr.pathname);
+          })
+          .catch((pr) =>
+            pr.text(
+              "caught " + pr.error?.message,
+              StatusCode.InternalServerError,
+            )
+          )
+          .handle("GET /:year<int>")((pr) => {
+            const year: number = pr.params.year;
+            throw new Error("no report " + year);
+          });
+      });
+  })
+  .filter("GET /admin/users/:id")(() => {
+    groupLog.push("filter");
+  })
+  .filter("GET /admin/reports/boom")(() => {
+    throw new Error("boom");
+  })
+  .handle("GET /public")((pr) => pr.text("public"));
+
+const appendedGroupsRouter = new Router().append("/v1", groupsRouter);
+
+Deno.test(async function Route_Groups__OK() {
+  const request = async (
+    router: Router<Record<string, unknown>>,
+    url: string,
+    admin = true,
+  ) => {
+    const response = await router.handleRequest(
+      new Request("http://localhost:3000" + url, {
+        headers: admin ? { Authorization: "admin" } : {},
+      }),
+      info,
+    );
+    return [response.status, await response.text()];
+  };
+  assertEquals(await request(groupsRouter, "/admin/users/1", false), [
+    StatusCode.Forbidden,
+    "forbidden",
+  ]);
+  assertEquals(await request(groupsRouter, "/admin/users/1"), [
+    StatusCode.OK,
+    "user 1",
+  ]);
+  assertEquals(await request(groupsRouter, "/admin/empty"), [
+    StatusCode.OK,
+    "admin fallback",
+  ]);
+  assertEquals(await request(groupsRouter, "/admin/reports/2024"), [
+    StatusCode.InternalServerError,
+    "caught no report 2024",
+  ]);
+  assertEquals(await request(groupsRouter, "/admin/missing"), [
+    StatusCode.OK,
+    "admin fallback",
+  ]);
+  assertEquals(await request(groupsRouter, "/admin/missing", false), [
+    StatusCode.Forbidden,
+    "forbidden",
+  ]);
+  assertEquals(await request(groupsRouter, "/admin/reports/boom"), [
+    StatusCode.InternalServerError,
+    "caught boom",
+  ]);
+  assertEquals(await request(groupsRouter, "/public", false), [
+    StatusCode.OK,
+    "public",
+  ]);
+  assertEquals(await request(appendedGroupsRouter, "/v1/admin/empty", false), [
+    StatusCode.Forbidden,
+    "forbidden",
+  ]);
+  assertEquals(await request(appendedGroupsRouter, "/v1/admin/missing"), [
+    StatusCode.OK,
+    "admin fallback",
+  ]);
+  assertEquals(groupLog, ["filter", "filter", "hook /admin/reports/2024"]);
+});
+
+const metaRouter = new Router()
+  .filter("* /**")((pr) => {
+    const scopes = (pr.route?.meta.scopes ?? []) as Array<string>;
+    const granted = pr.request.headers.get("X-Scopes")?.split(" ") ?? [];
+    if (!scopes.every((scope) => granted.includes(scope))) {
+      return pr.text("forbidden", StatusCode.Forbidden);
+    }
+  })
+  .handle("GET /reports/:id<int>")((pr) => pr.json(pr.route), {
+    meta: { scopes: ["reports:read"], summary: "Get a report" },
+  })
+  .fallback("GET /**")((pr) => pr.json(pr.route));
+
+Deno.test(async function Route_Meta__OK() {
+  const request = async (url: string, scopes = "") => {
+    const response = await metaRouter.handleRequest(
+      new Request("http://localhost:3000" + url, {
+        headers: { "X-Scopes": scopes },
+      }),
+      info,
+    );
+    return [response.status, await response.text()];
+  };
+  assertEquals(await request("/reports/1"), [
+    StatusCode.Forbidden,
+    "forbidden",
+  ]);
+  assertEquals(await request("/reports/1", "reports:read"), [
+    StatusCode.OK,
+    JSON.stringify({
+      type: "handler",
+      method: "GET",
+      pattern: "/reports/:id<int>",
+      meta: { scopes: ["reports:read"], summary: "Get a report" },
+    }),
+  ]);
+  assertEquals(await request("/reports/x"), [
+    StatusCode.OK,
+    '{"type":"fallback","method":"GET","pattern":"/**","meta":{}}',
+  ]);
+  assertEquals(
+    metaRouter.listRoutes().find(({ type }) => type === "handler")?.meta,
+    { scopes: ["reports:read"], summary: "Get a report" },
+  );
+  const variantsRouter = new Router()
+    .handle("GET /export")((pr) => pr.json(pr.route?.meta), {
+      accept: "application/json",
+      meta: { format: "json" },
+    })
+    .handle("GET /export")((pr) => pr.text(JSON.stringify(pr.route?.meta)), {
+      accept: "text/csv",
+      meta: { format: "csv" },
+    });
+  for (
+    const [accept, format] of [
+      ["application/json", "json"],
+      ["text/csv", "csv"],
+    ]
+  ) {
+    const response = await variantsRouter.handleRequest(
+      new Request("http://localhost:3000/export", { headers: { accept } }),
+      info,
+    );
+    assertEquals(await response.json(), { format });
+  }
+});
+
+const authenticate = withState<{ user: { name: string } }>()((pr) => {
+  const name = pr.request.headers.get("X-User");
+  if (name == null) return pr.text("unauthorized", StatusCode.Unauthorized);
+  pr.set("user", { name });
+});
+
+const stateRouter = new Router()
+  .filter("* /**")(authenticate)
+  .hook("GET /greeting")(
+    withState<{ greeting: string }>()((pr) => {
+      pr.set("greeting", "Hello");
+    }),
+  )
+  .handle("GET /greeting")((pr) =>
+    pr.text(`${pr.state.greeting} ${pr.state.user?.name}`)
+  );
+
+Deno.test(async function Request_State__OK() {
+  // @ts-expect-error: no filter adds `user` to the state
+  new Router().handle("GET /")((pr) => pr.text(pr.state.user.name));
+  new Router()
+    .filter("* /admin/**")(authenticate)
+    // @ts-expect-error: the filter does not run on `/public`
+    .handle("GET /public")((pr) => pr.text(pr.state.user.name));
+  new Router<{ session: string }>().handle("GET /")((pr) => {
+    // @ts-expect-error: `UserData` is optional until a handler sets it
+    const session: string = pr.session;
+    return pr.text(session);
+  });
+  const request = async (url: string, user?: string) => {
+    const response = await stateRouter.handleRequest(
+      new Request("http://localhost:3000" + url, {
+        headers: user != null ? { "X-User": user } : {},
+      }),
+      info,
+    );
+    return [response.status, await response.text()];
+  };
+  assertEquals(await request("/greeting"), [
+    StatusCode.Unauthorized,
+    "unauthorized",
+  ]);
+  assertEquals(await request("/greeting", "ada"), [
+    StatusCode.OK,
+    "Hello ada",
+  ]);
+});
+
+const middlewareRouter = new Router()
+  .use("* /**")(async (pr, next) => {
+    const response = await next();
+    response?.headers.append("X-Trace", "outer");
+  })
+  .use("GET /api/**")(async (pr, next) => {
+    if (pr.request.headers.has("X-Blocked")) {
+      return pr.text("blocked", StatusCode.Forbidden);
+    }
+    const response = await next();
+    response?.headers.append("X-Trace", "inner");
+    if (response?.status === StatusCode.NotFound) {
+      return pr.json({ error: "not found" }, StatusCode.NotFound);
+    }
+  })
+  .filter("GET /api/**")((pr) => {
+    pr.headers.set("X-Filtered", "true");
+  })
+  .handle("GET /api/items")((pr) => pr.text("items"))
+  .handle("GET /api/fail")(() => {
+    throw new Error("failed");
+  })
+  .handle("GET /api/missing")((pr) => pr.text("missing", StatusCode.NotFound))
+  .catch("* /**")((pr) => pr.text(`caught ${pr.error?.message}`));
+
+Deno.test(async function Middleware_Next__OK() {
+  const request = async (url: string, headers: HeadersInit = {}) => {
+    const response = await middlewareRouter.handleRequest(
+      new Request("http://localhost:3000" + url, { headers }),
+      info,
+    );
+    return [
+      response.status,
+      response.headers.get("X-Trace"),
+      await response.text(),
+    ];
+  };
+  assertEquals(await request("/api/items"), [
+    StatusCode.OK,
+    "inner, outer",
+    "items",
+  ]);
+  assertEquals(await request("/api/items", { "X-Blocked": "1" }), [
+    StatusCode.Forbidden,
+    "outer",
+    "blocked",
+  ]);
+  assertEquals(await request("/api/missing"), [
+    StatusCode.NotFound,
+    "outer",
+    '{"error":"not found"}',
+  ]);
+  assertEquals(await request("/api/fail"), [
+    StatusCode.InternalServerError,
+    null,
+    "caught failed",
+  ]);
+  const twice = new Router().use("* /**")(async (_pr, next) => {
+    await next();
+    await next();
+  });
+  twice.handle("GET /once")((pr) => pr.text("once"));
+  const response = await twice.handleRequest(
+    new Request("http://localhost:3000/once"),
+    info,
+  );
+  assertEquals(response.status, StatusCode.InternalServerError);
+  await response.body?.cancel();
+  const unawaited = await new Router()
+    .use("* /**")((_pr, next) => {
+      next();
+    })
+    .handle("GET /slow")(async (pr) => {
+      await delay(10);
+      return pr.text("slow");
+    })
+    .handleRequest(new Request("http://localhost:3000/slow"), info);
+  assertEquals(
+    [unawaited.status, await unawaited.text()],
+    [StatusCode.OK, "slow"],
+  );
+});
+
+Deno.test(async function After_Handlers__OK() {
+  const audit: Array<string> = [];
+  const router = new Router()
+    .handle("GET /items")((pr) => pr.text("items"))
+    .handle("GET /items/fail")(() => {
+      throw new Error("failed");
+    })
+    .after("* /**")((pr) => {
+      audit.push(`${pr.pathname} ${pr.statusCode}`);
+    })
+    .after("GET /items/**")((pr) => {
+      const headers = new Headers(pr.response!.headers);
+      headers.set("X-Content-Type-Options", "nosniff");
+      return new Response(pr.response!.body, {
+        status: pr.response!.status,
+        headers,
+      });
+    });
+  const request = async (url: string) => {
+    const response = await router.handleRequest(
+      new Request("http://localhost:3000" + url),
+      info,
+    );
+    return [
+      response.status,
+      response.headers.get("X-Content-Type-Options"),
+      await response.text(),
+    ];
+  };
+  assertEquals(await request("/items"), [StatusCode.OK, null, "items"]);
+  assertEquals(await request("/items/fail"), [
+    StatusCode.InternalServerError,
+    "nosniff",
+    "Internal Server Error",
+  ]);
+  assertEquals(await request("/items/none"), [
+    StatusCode.NotFound,
+    "nosniff",
+    "Not Found",
+  ]);
+  assertEquals(audit, ["/items 200", "/items/fail 500", "/items/none 404"]);
+  const logged: Array<number> = [];
+  const failingRouter = new Router({
+    log: { requests: ({ status }) => void logged.push(status) },
+  })
+    .handle("GET /items")((pr) => pr.text("items"))
+    .after("* /**")(function addHeaders() {
+      throw new Error("after failed");
+    });
+  const response = await failingRouter.handleRequest(
+    new Request("http://localhost:3000/items"),
+    info,
+  );
+  assertEquals(response.status, StatusCode.InternalServerError);
+  assertEquals(await response.text(), "Internal Server Error");
+  assertEquals(logged, [StatusCode.InternalServerError]);
+});
+
+Deno.test(async function Error_Responses__OK() {
+  const caught: Array<string> = [];
+  const router = new Router()
+    .handle("GET /api/items/:id")(function getItem() {
+      throw new Error("no database");
+    })
+    .handle("GET /api/users")(() => {
+      throw new HttpError("users are gone", StatusCode.Gone);
+    })
+    .catch("GET /api/items/:id")(() => {
+      caught.push("item");
+    })
+    .catch("GET /api/**")((pr) => {
+      caught.push("api");
+      if (pr.error?.message === "no database") {
+        return pr.text("database down", StatusCode.ServiceUnavailable);
+      }
+    });
+  const request = async (
+    router: Router<Record<string, unknown>>,
+    url: string,
+    accept?: string,
+  ) => {
+    const response = await router.handleRequest(
+      new Request("http://localhost:3000" + url, {
+        headers: accept != null ? { Accept: accept } : {},
+      }),
+      info,
+    );
+    return [
+      response.status,
+      response.headers.get("Content-Type"),
+      await response.text(),
+    ];
+  };
+  assertEquals(await request(router, "/api/items/1"), [
+    StatusCode.ServiceUnavailable,
+    "text/plain; charset=UTF-8",
+    "database down",
+  ]);
+  assertEquals(caught, ["item", "api"]);
+  assertEquals(await request(router, "/api/users", "application/json"), [
+    StatusCode.Gone,
+    "application/problem+json",
+    JSON.stringify({
+      type: "about:blank",
+      title: "Gone",
+      status: StatusCode.Gone,
+      detail: "users are gone",
+      instance: "/api/users",
+    }),
+  ]);
+  assertEquals(await request(router, "/none", "text/html,*/*;q=0.8"), [
+    StatusCode.NotFound,
+    "text/html; charset=UTF-8",
+    '<!DOCTYPE html><html><head><meta charset="utf-8">' +
+    "<title>404 Not Found</title></head><body>" +
+    "<h1>404 Not Found</h1></body></html>",
+  ]);
+  assertEquals(await request(router, "/none"), [
+    StatusCode.NotFound,
+    "text/plain; charset=UTF-8",
+    "Not Found",
+  ]);
+  const devRouter = new Router({ dev: true }).handle("GET /items")(
+    function listItems() {
+      throw new Error("no database");
+    },
+  );
+  const [status, , body] = await request(
+    devRouter,
+    "/items",
+    "application/json",
+  );
+  const problem = JSON.parse(body as string);
+  assertEquals(status, StatusCode.InternalServerError);
+  assertEquals(problem.detail, "no database");
+  assertEquals(problem.handler, "listItems");
+  assert(problem.stack.startsWith("Error: no database"));
+});
+
+Deno.test(async function Malformed_Path__BAD_REQUEST() {
+  const logged: Array<number> = [];
+  const router = new Router({
+    log: { requests: ({ status }) => void logged.push(status) },
+  })
+    .handle("GET /a/:b")((pr) => pr.text("a " + pr.params.b))
+    .catch("* /**")((pr) =>
+      pr.text(`${pr.statusCode} caught ${pr.error?.message}`)
+    );
+  const response = await router.handleRequest(
+    new Request("http://localhost:3000/a/%E0%A4%A"),
+    info,
+  );
+  assertEquals(response.status, StatusCode.BadRequest);
+  assertEquals(await response.text(), "400 caught URI malformed");
+  assertEquals(logged, [StatusCode.BadRequest]);
+  const uncaught = await new Router()
+    .handle("GET /a/:b")((pr) => pr.text("a " + pr.params.b))
+    .handleRequest(new Request("http://localhost:3000/a/%E0%A4%A"), info);
+  assertEquals(uncaught.status, StatusCode.BadRequest);
+  await uncaught.body?.cancel();
+});
+
+Deno.test(async function Problem_Errors__OK() {
+  const router = new Router()
+    .handle("GET /orders/:id")((pr) => {
+      throw new ProblemError(StatusCode.Conflict, {
+        type: "https://example.com/problems/order-locked",
+        title: "Order locked",
+        detail: `order ${pr.params.id} is being shipped`,
+        orderId: pr.params.id,
+      });
+    })
+    .handle("GET /search")([validate.query("q"), (pr) => pr.text("found")])
+    .handle("GET /keys")([
+      auth.apiKey({ accpetKey: () => {} }),
+      (pr) => pr.text("keys"),
+    ])
+    .handle("GET /basic")([
+      auth.basic({ acceptCredentials: () => {} }),
+      (pr) => pr.text("basic"),
+    ])
+    .handle("GET /broken")(() => {
+      throw new RouterError("route table broken");
+    })
+    .handle("GET /locked/:id")((pr) => {
+      throw new ProblemError(StatusCode.Conflict, {
+        type: "https://example.com/problems/order-locked",
+        title: "Order locked",
+        detail: `order ${pr.params.id} is being shipped`,
+        orderId: pr.params.id,
+      });
+    })
+    .handle("GET /gone")(() => {
+      throw new HttpError("archived", StatusCode.NotFound);
+    })
+    .catch("GET /locked/:id", "GET /gone")((pr) => {
+      pr.status(
+        pr.url.pathname === "/gone" ? StatusCode.Gone : StatusCode.Locked,
+      );
+    });
+  const request = async (url: string, accept?: string) => {
+    const response = await router.handleRequest(
+      new Request("http://localhost:3000" + url, {
+        headers: accept != null ? { Accept: accept } : {},
+      }),
+      info,
+    );
+    return [
+      response.status,
+      response.headers.get("Content-Type"),
+      await response.json(),
+    ];
+  };
+  assertEquals(await request("/orders/7"), [
+    StatusCode.Conflict,
+    "application/problem+json",
+    {
+      type: "https://example.com/problems/order-locked",
+      title: "Order locked",
+      status: StatusCode.Conflict,
+      detail: "order 7 is being shipped",
+      instance: "/orders/7",
+      orderId: "7",
+    },
+  ]);
+  assertEquals(await request("/search"), [
+    StatusCode.BadRequest,
+    "application/problem+json",
+    {
+      type: "about:blank",
+      title: "Bad Request",
+      status: StatusCode.BadRequest,
+      detail: "missing required query entry `q`",
+      instance: "/search",
+    },
+  ]);
+  assertEquals(await request("/keys"), [
+    StatusCode.Unauthorized,
+    "application/problem+json",
+    {
+      type: "about:blank",
+      title: "Unauthorized",
+      status: StatusCode.Unauthorized,
+      detail: "missing `X-API-Key` header",
+      instance: "/keys",
+    },
+  ]);
+  assertEquals(await request("/broken", "application/json"), [
+    StatusCode.InternalServerError,
+    "application/problem+json",
+    {
+      type: "about:blank",
+      title: "Internal Server Error",
+      status: StatusCode.InternalServerError,
+      instance: "/broken",
+    },
+  ]);
+  const basic = await router.handleRequest(
+    new Request("http://localhost:3000/basic", {
+      headers: { Authorization: "Basic %%%" },
+    }),
+    info,
+  );
+  assertEquals(basic.status, StatusCode.Unauthorized);
+  assertEquals((await basic.json()).detail, "malformed credentials");
+  // catchers override the status of the problem only
+  assertEquals(await request("/locked/7"), [
+    StatusCode.Locked,
+    "application/problem+json",
+    {
+      type: "https://example.com/problems/order-locked",
+      title: "Order locked",
+      status: StatusCode.Locked,
+      detail: "order 7 is being shipped",
+      instance: "/locked/7",
+      orderId: "7",
+    },
+  ]);
+  assertEquals(await request("/gone", "application/json"), [
+    StatusCode.Gone,
+    "application/problem+json",
+    {
+      type: "about:blank",
+      title: "Gone",
+      status: StatusCode.Gone,
+      detail: "archived",
+      instance: "/gone",
+    },
+  ]);
+});